@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// axe-core tags for WCAG 2.1 level A and AA
+export const WCAG_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+// Known violations that should not fail the build, keyed by axe rule id, e.g.
+//   "color-contrast": { "reason": "Footer text on theme background", "pages": ["*"], "maxNodes": 12 }
+export interface BaselineEntry {
+  // Why the violation is accepted for now; shown in the report
+  reason: string;
+  // Site map page ids the entry covers, or "*" for every page
+  pages: string[];
+  // Violations on more elements than this still fail, so regressions are caught
+  maxNodes?: number;
+}
+
+export interface AccessibilityBaseline {
+  rules: Record<string, BaselineEntry>;
+}
+
+export const ACCESSIBILITY_BASELINE_PATH = path.resolve(__dirname, 'accessibility-baseline.json');
+
+export function loadAccessibilityBaseline(file: string = ACCESSIBILITY_BASELINE_PATH): AccessibilityBaseline {
+  const baseline = JSON.parse(fs.readFileSync(file, 'utf-8')) as AccessibilityBaseline;
+
+  for (const [rule, entry] of Object.entries(baseline.rules || {})) {
+    if (!entry.reason || !Array.isArray(entry.pages) || entry.pages.length === 0) {
+      throw new Error(`Accessibility baseline entry "${rule}" in ${file} needs a "reason" and a non-empty "pages" list`);
+    }
+  }
+  return { rules: baseline.rules || {} };
+}
+
+// The baseline entry covering `rule` on `pageId`, if any
+export function baselineEntry(baseline: AccessibilityBaseline, rule: string, pageId: string): BaselineEntry | undefined {
+  const entry = baseline.rules[rule];
+  return entry && (entry.pages.includes('*') || entry.pages.includes(pageId)) ? entry : undefined;
+}
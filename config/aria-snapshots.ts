@@ -0,0 +1,32 @@
+import { PageKind, SitePage, pagesOfKind } from './site-map';
+
+// Settings for tests/aria-snapshot.spec.ts, which compares the accessibility tree of each region
+// (landmarks, roles, accessible names and the heading outline) with the stored baselines.
+export type AriaRegion = 'header' | 'navigation' | 'content' | 'footer';
+
+// Candidate selectors per region, most specific first; the first one on the page is snapshotted
+export const ARIA_REGIONS: Record<AriaRegion, string[]> = {
+  header: ['header.mainHeader', 'header', '[role="banner"]'],
+  navigation: ['header .menuPort nav', 'header nav', '[role="navigation"]', 'nav'],
+  // The article body on articles, the page content elsewhere
+  content: ['.btArticleContent', '.entry-content', '.post-content', 'main', '[role="main"]', '.btContentHolder'],
+  footer: ['footer.btLightSkin', 'footer', '[role="contentinfo"]']
+};
+
+// Regions left out per page kind. Listings change whenever an article is published; their cards
+// are checked in category.spec.ts
+const SKIPPED_REGIONS: Partial<Record<PageKind, AriaRegion[]>> = {
+  category: ['content']
+};
+
+// One page of each type
+const KINDS: PageKind[] = ['home', 'category', 'article', 'static'];
+
+export function ariaSnapshotPages(): SitePage[] {
+  return KINDS.map(kind => pagesOfKind(kind)[0]).filter((page): page is SitePage => !!page);
+}
+
+export function ariaRegions(page: SitePage): AriaRegion[] {
+  const skipped = SKIPPED_REGIONS[page.kind] || [];
+  return (Object.keys(ARIA_REGIONS) as AriaRegion[]).filter(region => !skipped.includes(region));
+}
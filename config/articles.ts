@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CategorySlug } from './site-map';
+
+// Content manifests for the generic article suite (tests/article.spec.ts), one JSON file per
+// article in content/articles/. Adding an article to the suite needs a manifest only.
+export const ARTICLE_MANIFEST_DIR = path.resolve(__dirname, '..', 'content', 'articles');
+
+// A list of phrases of which at least `min` must be visible on the page
+export interface KeywordGroup {
+  // Used in the test title, e.g. 'pet food brands'
+  name: string;
+  // Matched like BasePage.mention(): literally, or as a whitespace-tolerant case-insensitive regex
+  terms: string[];
+  // Defaults to half of the terms, rounded down
+  min?: number;
+}
+
+export interface PriceFacts {
+  // Regular expressions (case-insensitive) for prices; at least one must be visible
+  patterns: string[];
+  // Figures quoted in the article; at least one must be visible
+  amounts?: string[];
+}
+
+export interface LocationFacts {
+  names: string[];
+  // Defaults to 1
+  min?: number;
+}
+
+export interface ArticleStructure {
+  // Minimum number of h1-h6 headings (default 1)
+  minHeadings?: number;
+  // Maximum number of h1 headings (default 3)
+  maxH1?: number;
+  minParagraphs?: number;
+  minLists?: number;
+}
+
+export interface ArticleManifest {
+  // Site map id, e.g. 'article-food'
+  id: string;
+  // URL slug; the article lives at /<slug>/
+  slug: string;
+  categories: CategorySlug[];
+  // Regular expression (case-insensitive) for the document title
+  title: string;
+  // Regular expression (case-insensitive) for the visible article heading
+  headline: string;
+  structure?: ArticleStructure;
+  // Phrases that must each be visible, matched like KeywordGroup terms
+  requiredSections: string[];
+  requiredKeywords: KeywordGroup[];
+  facts?: {
+    prices?: PriceFacts;
+    locations?: LocationFacts;
+  };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Fails fast with the file name so a typo in one manifest doesn't surface as a confusing test failure
+function validateManifest(manifest: ArticleManifest, file: string): ArticleManifest {
+  const problems: string[] = [];
+
+  for (const field of ['id', 'slug', 'title', 'headline'] as const) {
+    if (typeof manifest[field] !== 'string' || manifest[field].length === 0) {
+      problems.push(`"${field}" must be a non-empty string`);
+    }
+  }
+  if (!isStringArray(manifest.categories) || manifest.categories.length === 0) {
+    problems.push('"categories" must list at least one category slug');
+  }
+  if (!isStringArray(manifest.requiredSections)) {
+    problems.push('"requiredSections" must be an array of strings');
+  }
+  if (!Array.isArray(manifest.requiredKeywords)
+    || !manifest.requiredKeywords.every(group => typeof group.name === 'string' && isStringArray(group.terms))) {
+    problems.push('"requiredKeywords" must be an array of { name, terms, min? } groups');
+  }
+  for (const field of ['title', 'headline'] as const) {
+    try {
+      new RegExp(manifest[field], 'i');
+    } catch (error) {
+      problems.push(`"${field}" is not a valid regular expression: ${error}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid article manifest ${file}:\n  ${problems.join('\n  ')}`);
+  }
+  return manifest;
+}
+
+export function loadArticleManifests(dir: string = ARTICLE_MANIFEST_DIR): ArticleManifest[] {
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const fullPath = path.join(dir, file);
+      return validateManifest(JSON.parse(fs.readFileSync(fullPath, 'utf-8')), fullPath);
+    });
+}
+
+export const ARTICLE_MANIFESTS: readonly ArticleManifest[] = loadArticleManifests();
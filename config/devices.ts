@@ -0,0 +1,86 @@
+import { devices } from '@playwright/test';
+
+// Device matrix: every selected device becomes a Playwright project for each selected environment,
+// so every spec runs on every device. DEVICES selects devices by name (comma-separated, default "all").
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+export type FormFactor = 'phone' | 'tablet' | 'desktop';
+export type DeviceEmulation = typeof devices[string];
+
+// Applied through the Chrome DevTools Protocol, so Chromium only
+export interface Throttling {
+  // CPU slowdown factor, e.g. 4 for a phone four times slower than the test machine
+  cpuSlowdown: number;
+  // Added round-trip time (ms)
+  latency: number;
+  downloadKbps: number;
+  uploadKbps: number;
+}
+
+export interface DeviceProfile {
+  // Project name suffix, e.g. "webkit-phone"
+  name: string;
+  browser: BrowserName;
+  formFactor: FormFactor;
+  // Capabilities specs can skip on, e.g. test.skip(({ device }) => !device.touch, ...)
+  touch: boolean;
+  lowEnd: boolean;
+  emulation: DeviceEmulation;
+  throttling?: Throttling;
+}
+
+// Firefox can't emulate isMobile, so its phone and tablet are a touch screen of the same size with a
+// Firefox for Android user agent
+function firefoxOn(device: DeviceEmulation, kind: 'Mobile' | 'Tablet'): DeviceEmulation {
+  return {
+    ...device,
+    isMobile: false,
+    userAgent: `Mozilla/5.0 (Android 14; ${kind}; rv:140.0) Gecko/140.0 Firefox/140.0`,
+    defaultBrowserType: 'firefox'
+  };
+}
+
+export const DEVICE_MATRIX: readonly DeviceProfile[] = [
+  { name: 'chromium-desktop', browser: 'chromium', formFactor: 'desktop', touch: false, lowEnd: false, emulation: devices['Desktop Chrome'] },
+  { name: 'chromium-tablet', browser: 'chromium', formFactor: 'tablet', touch: true, lowEnd: false, emulation: devices['Galaxy Tab S4'] },
+  { name: 'chromium-phone', browser: 'chromium', formFactor: 'phone', touch: true, lowEnd: false, emulation: devices['Pixel 7'] },
+  { name: 'firefox-desktop', browser: 'firefox', formFactor: 'desktop', touch: false, lowEnd: false, emulation: devices['Desktop Firefox'] },
+  { name: 'firefox-tablet', browser: 'firefox', formFactor: 'tablet', touch: true, lowEnd: false, emulation: firefoxOn(devices['Galaxy Tab S4'], 'Tablet') },
+  { name: 'firefox-phone', browser: 'firefox', formFactor: 'phone', touch: true, lowEnd: false, emulation: firefoxOn(devices['Pixel 7'], 'Mobile') },
+  { name: 'webkit-desktop', browser: 'webkit', formFactor: 'desktop', touch: false, lowEnd: false, emulation: devices['Desktop Safari'] },
+  { name: 'webkit-tablet', browser: 'webkit', formFactor: 'tablet', touch: true, lowEnd: false, emulation: devices['iPad (gen 7)'] },
+  { name: 'webkit-phone', browser: 'webkit', formFactor: 'phone', touch: true, lowEnd: false, emulation: devices['iPhone 13'] },
+  // A budget Android phone on a slow mobile connection
+  {
+    name: 'android-low-end',
+    browser: 'chromium',
+    formFactor: 'phone',
+    touch: true,
+    lowEnd: true,
+    emulation: devices['Moto G4'],
+    throttling: { cpuSlowdown: 4, latency: 150, downloadKbps: 1600, uploadKbps: 750 }
+  }
+];
+
+// Specs whose results don't depend on the device; they only run on the first selected device
+export const DEVICE_INDEPENDENT_SPECS = [/links\.spec\.ts/, /sitemap\.spec\.ts/, /security\.spec\.ts/, /load\.spec\.ts/];
+
+// What playwright.config.ts stores in each project's metadata
+export interface ProjectMetadata {
+  environment: string;
+  device: string;
+}
+
+// Parses DEVICES: device names, comma-separated, or "all"
+export function selectedDevices(value: string = process.env.DEVICES || 'all'): DeviceProfile[] {
+  if (value === 'all') {
+    return [...DEVICE_MATRIX];
+  }
+
+  return value.split(',').map(name => name.trim()).filter(Boolean).map(name => {
+    const device = DEVICE_MATRIX.find(candidate => candidate.name === name);
+    if (!device) {
+      throw new Error(`Unknown device "${name}" in DEVICES. Expected one of: ${DEVICE_MATRIX.map(candidate => candidate.name).join(', ')}, all`);
+    }
+    return device;
+  });
+}
@@ -0,0 +1,49 @@
+// Target environments the suite can run against. TEST_ENV selects which ones get a
+// Playwright project (defaults to production).
+export type EnvironmentName = 'production' | 'staging' | 'local';
+
+export interface EnvironmentProfile {
+  baseURL: string;
+  description: string;
+}
+
+export const ENVIRONMENTS: Record<EnvironmentName, EnvironmentProfile> = {
+  production: {
+    baseURL: 'https://pinoypetplan.com',
+    description: 'Live site'
+  },
+  staging: {
+    baseURL: process.env.STAGING_URL || 'https://staging.pinoypetplan.com',
+    description: 'Pre-release copy of the site (override with STAGING_URL)'
+  },
+  local: {
+    baseURL: process.env.LOCAL_URL || 'http://localhost:8080',
+    description: 'Offline snapshot server (override with LOCAL_URL)'
+  }
+};
+
+// Shared timeouts (ms), previously duplicated in each spec
+export const TIMEOUT = {
+  SHORT: 5000,
+  MEDIUM: 10000,
+  LONG: 30000
+};
+
+export function isEnvironmentName(name: string): name is EnvironmentName {
+  return Object.prototype.hasOwnProperty.call(ENVIRONMENTS, name);
+}
+
+// Parses TEST_ENV: a single profile, a comma-separated list, or "all"
+export function selectedEnvironments(value: string = process.env.TEST_ENV || 'production'): EnvironmentName[] {
+  if (value === 'all') {
+    return Object.keys(ENVIRONMENTS) as EnvironmentName[];
+  }
+
+  const names = value.split(',').map(name => name.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!isEnvironmentName(name)) {
+      throw new Error(`Unknown TEST_ENV "${name}". Expected one of: ${Object.keys(ENVIRONMENTS).join(', ')}, all`);
+    }
+  }
+  return names as EnvironmentName[];
+}
@@ -0,0 +1,33 @@
+// Inputs fed to every text field of every form by tests/form-fuzz.spec.ts. Markup payloads carry
+// FUZZ_ATTRIBUTE so an element created from them can be found in the DOM, and script payloads set
+// window[FUZZ_MARKER] if they ever run.
+export const FUZZ_MARKER = '__fuzzMarker';
+export const FUZZ_ATTRIBUTE = 'data-fuzz-marker';
+
+// Invalid input a form has to turn away: blank required fields, more than a field's maxlength, or a
+// malformed address in an email field
+export type FuzzRejection = 'blank' | 'too-long' | 'malformed-email';
+
+export interface FuzzInput {
+  name: string;
+  value: string;
+  rejects?: FuzzRejection;
+}
+
+export const FUZZ_CORPUS: FuzzInput[] = [
+  { name: 'very long string', value: 'Aso at pusa '.repeat(1000), rejects: 'too-long' },
+  { name: 'Tagalog diacritics', value: 'Mabúhay! Salamat pô sa tulong. Niño, Señora, Parañaque, ñ Ñ ĝ' },
+  { name: 'emoji', value: '🐶🐱🐾 Fur parent 👨‍👩‍👧 with a 🇵🇭 flag' },
+  { name: 'script tag', value: `<script>window.${FUZZ_MARKER} = true</script>` },
+  { name: 'attribute breakout', value: `"><img src="x" ${FUZZ_ATTRIBUTE} onerror="window.${FUZZ_MARKER} = true">` },
+  { name: 'svg onload', value: `<svg ${FUZZ_ATTRIBUTE} onload="window.${FUZZ_MARKER} = true"></svg>` },
+  { name: 'javascript URL', value: `javascript:window.${FUZZ_MARKER} = true` },
+  { name: 'SQL quote', value: "' OR '1'='1' -- " },
+  { name: 'SQL statement', value: '1; DROP TABLE wp_users; --' },
+  { name: 'malformed email', value: 'juan.delacruz@@example.com', rejects: 'malformed-email' },
+  { name: 'empty', value: '', rejects: 'blank' },
+  { name: 'whitespace only', value: ' \t    ', rejects: 'blank' }
+];
+
+// Pages whose forms are fuzzed, by site map id
+export const FUZZ_PAGES = ['home', 'contact', 'articles'];
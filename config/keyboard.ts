@@ -0,0 +1,45 @@
+import { PageKind, SitePage, pagesOfKind } from './site-map';
+
+// Settings for the keyboard navigation suite (tests/keyboard.spec.ts): how far to tab, how many
+// toggles to try and the severity of each check.
+export type KeyboardSeverity = 'error' | 'warning';
+
+export type KeyboardCheck = 'focus-indicator' | 'hidden-focus' | 'tabindex' | 'trap' | 'skip-link' | 'menu' | 'toggle' | 'escape';
+
+export interface KeyboardCheckOptions {
+  // Tab presses before giving up on reaching the end of the page
+  maxTabs: number;
+  // Expandable menu items and [aria-expanded] toggles tried per page
+  maxToggles: number;
+  severity: Record<KeyboardCheck, KeyboardSeverity>;
+}
+
+export const KEYBOARD_CHECK: KeyboardCheckOptions = {
+  maxTabs: Number(process.env.KEYBOARD_MAX_TABS || 200),
+  maxToggles: 5,
+  severity: {
+    // Focused element looks the same as when it isn't focused (WCAG 2.4.7)
+    'focus-indicator': 'error',
+    // Focus lands on an element that can't be seen
+    'hidden-focus': 'warning',
+    // Positive tabindex reorders focus away from the reading order
+    'tabindex': 'warning',
+    // Focus can't move on, or cycles without reaching the end of the page (WCAG 2.1.2)
+    'trap': 'error',
+    // Missing skip link is a warning; one that doesn't show or doesn't move focus is an error
+    'skip-link': 'error',
+    // Submenu that can't be opened or reached with the keyboard
+    'menu': 'error',
+    // [aria-expanded] toggle that doesn't react to Enter or Space
+    'toggle': 'warning',
+    // Open submenu or toggle that Escape doesn't close
+    'escape': 'warning'
+  }
+};
+
+// One page of each type is tabbed through
+const KINDS: PageKind[] = ['home', 'category', 'article', 'static'];
+
+export function keyboardPages(): SitePage[] {
+  return KINDS.map(kind => pagesOfKind(kind)[0]).filter((page): page is SitePage => !!page);
+}
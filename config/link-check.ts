@@ -0,0 +1,33 @@
+import { TIMEOUT } from './environments';
+
+// Settings for the link integrity crawler (tests/links.spec.ts). LINK_DEPTH, LINK_CONCURRENCY,
+// LINK_MAX_PAGES and LINK_TIME_LIMIT (minutes) override the defaults.
+export interface LinkCheckOptions {
+  // Internal pages this many clicks away from the start page are crawled for further links
+  maxDepth: number;
+  // Upper bound on crawled pages, whatever the depth
+  maxPages: number;
+  // No new page is crawled after this long (ms); links already found are still checked
+  timeLimit: number;
+  // Status checks in flight at once
+  concurrency: number;
+  // Per-request timeout (ms)
+  requestTimeout: number;
+  // Links matching any of these are reported as skipped instead of checked
+  skip: RegExp[];
+}
+
+export const LINK_CHECK: LinkCheckOptions = {
+  maxDepth: Number(process.env.LINK_DEPTH || 2),
+  maxPages: Number(process.env.LINK_MAX_PAGES || 150),
+  timeLimit: Number(process.env.LINK_TIME_LIMIT || 10) * 60000,
+  concurrency: Number(process.env.LINK_CONCURRENCY || 8),
+  requestTimeout: TIMEOUT.MEDIUM,
+  skip: [
+    // Social networks answer automated requests with 4xx/999 regardless of the link
+    /^https?:\/\/([\w-]+\.)?(facebook|instagram|twitter|x|linkedin|tiktok)\.com\//,
+    // WordPress endpoints that are not content
+    /\/wp-(admin|login\.php|json)\b/,
+    /[?&]replytocom=/
+  ]
+};
@@ -0,0 +1,43 @@
+import { TIMEOUT } from './environments';
+import { CATEGORIES, CategorySlug, SitePage, articlesInCategory, categoryPage, sitePage } from './site-map';
+
+// Settings for the load simulation (tests/load.spec.ts). LOAD_USERS, LOAD_DURATION, LOAD_RAMP_UP and
+// LOAD_THINK_TIME override the defaults; durations are in seconds.
+export interface LoadOptions {
+  // Opted in with LOAD=1 (npm run test:load sets it); without it only the local snapshot gets the load
+  enabled: boolean;
+  // Virtual users browsing at the same time, each in its own browser context
+  users: number;
+  // Users start evenly spread over this time (ms)
+  rampUp: number;
+  // Users keep repeating their journey until this much time has passed since the start (ms)
+  duration: number;
+  // Pause between two pages of a journey (ms)
+  thinkTime: number;
+  navigationTimeout: number;
+  // Share of failed requests (network errors and 4xx/5xx) that fails the test
+  maxErrorRate: number;
+  // 95th percentile of page load times that fails the test (ms)
+  maxStepP95: number;
+}
+
+const seconds = (value: string | undefined, fallback: number) => Number(value || fallback) * 1000;
+
+export const LOAD_OPTIONS: LoadOptions = {
+  enabled: process.env.LOAD === '1',
+  users: Number(process.env.LOAD_USERS || 5),
+  rampUp: seconds(process.env.LOAD_RAMP_UP, 10),
+  duration: seconds(process.env.LOAD_DURATION, 60),
+  thinkTime: seconds(process.env.LOAD_THINK_TIME, 1),
+  navigationTimeout: TIMEOUT.LONG,
+  maxErrorRate: 0.01,
+  maxStepP95: 8000
+};
+
+// Home, a category, one of its articles, then the contact page. One journey per category that has
+// articles in the site map; virtual users take them in turn.
+export function loadJourneys(): SitePage[][] {
+  return (Object.keys(CATEGORIES) as CategorySlug[])
+    .filter(slug => articlesInCategory(slug).length > 0)
+    .map(slug => [sitePage('home'), categoryPage(slug), articlesInCategory(slug)[0], sitePage('contact')]);
+}
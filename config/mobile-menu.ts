@@ -0,0 +1,19 @@
+import { CATEGORIES, CategorySlug, SitePage, categoryPage, sitePage } from './site-map';
+
+// Settings for the hamburger menu suite (tests/mobile-menu.spec.ts)
+export interface MobileMenuItem {
+  // Link text in the menu
+  label: string;
+  page: SitePage;
+}
+
+export const MOBILE_MENU = {
+  // Page the menu is opened on
+  startPage: sitePage('home'),
+  // Entries that must be in the menu, possibly inside a submenu, and the page each opens
+  items: (Object.keys(CATEGORIES) as CategorySlug[]).map((slug): MobileMenuItem => ({ label: CATEGORIES[slug], page: categoryPage(slug) })),
+  // WCAG 2.5.8 (AA) minimum target size in CSS px; smaller targets fail
+  minTargetSize: 24,
+  // WCAG 2.5.5 (AAA) target size; smaller targets are recorded as warnings
+  recommendedTargetSize: 44
+};
@@ -0,0 +1,77 @@
+import * as path from 'path';
+import { DeviceProfile, FormFactor } from './devices';
+import { PageKind } from './site-map';
+
+// Metrics collected by utils/performance.ts. Times are in ms, sizes in bytes, CLS is unitless.
+export type MetricName = 'ttfb' | 'fcp' | 'lcp' | 'cls' | 'inp' | 'tbt' | 'transferSize' | 'requestCount';
+
+export type PerformanceBudget = Partial<Record<MetricName, number>>;
+
+export const METRIC_UNITS: Record<MetricName, string> = {
+  ttfb: 'ms',
+  fcp: 'ms',
+  lcp: 'ms',
+  cls: '',
+  inp: 'ms',
+  tbt: 'ms',
+  transferSize: 'bytes',
+  requestCount: 'requests'
+};
+
+// Core Web Vitals "good" limits, loosened where a lab run against the live site over a CI
+// connection is slower than the field data they are defined for
+const DEFAULT_BUDGET: Required<PerformanceBudget> = {
+  ttfb: 1800,
+  fcp: 3000,
+  lcp: 4000,
+  cls: 0.1,
+  inp: 200,
+  tbt: 600,
+  transferSize: 4 * 1024 * 1024,
+  requestCount: 150
+};
+
+// Per page type, on top of the defaults
+const BUDGETS_BY_KIND: Record<PageKind, PerformanceBudget> = {
+  // Sliders and the latest-posts grid make the home page the heaviest
+  home: { lcp: 4500, transferSize: 6 * 1024 * 1024, requestCount: 200 },
+  category: { transferSize: 5 * 1024 * 1024 },
+  article: {},
+  static: { lcp: 3500 }
+};
+
+// Timing budgets are multiplied by these on slower devices; sizes and request counts stay the same
+const TIMING_METRICS: MetricName[] = ['ttfb', 'fcp', 'lcp', 'inp', 'tbt'];
+const TIMING_FACTOR_BY_FORM_FACTOR: Record<FormFactor, number> = { desktop: 1, tablet: 1.25, phone: 1.5 };
+// Throttled devices: a 4× slower CPU on a slow mobile connection (config/devices.ts)
+const TIMING_FACTOR_LOW_END = 3;
+
+export function performanceBudget(kind: PageKind, device?: DeviceProfile): Required<PerformanceBudget> {
+  const budget = { ...DEFAULT_BUDGET, ...BUDGETS_BY_KIND[kind] };
+  const factor = !device ? 1 : device.lowEnd ? TIMING_FACTOR_LOW_END : TIMING_FACTOR_BY_FORM_FACTOR[device.formFactor];
+  for (const metric of TIMING_METRICS) {
+    budget[metric] = Math.round(budget[metric] * factor);
+  }
+  return budget;
+}
+
+// Every measurement is appended to this JSON-lines file (override with PERF_HISTORY)
+export const PERFORMANCE_HISTORY_PATH = path.resolve(__dirname, '..', process.env.PERF_HISTORY || 'performance-history.jsonl');
+
+export interface RegressionOptions {
+  // How many earlier runs the latest one is compared with
+  runs: number;
+  // Fewer earlier runs than this are too few to judge
+  minRuns: number;
+  // Standard deviations above the earlier mean that count as significant
+  zScore: number;
+  // Smallest relative slowdown reported, so tiny but stable differences are ignored
+  minChange: number;
+}
+
+export const REGRESSION_DEFAULTS: RegressionOptions = {
+  runs: 10,
+  minRuns: 5,
+  zScore: 2,
+  minChange: 0.1
+};
@@ -0,0 +1,38 @@
+// Queries run by tests/search.spec.ts against the WordPress search (/?s=<query>)
+export interface SearchQuery {
+  query: string;
+  // 'results': at least minResults hits; 'empty': the no-results message; 'any': either, as long as
+  // the page copes with the query
+  expect: 'results' | 'empty' | 'any';
+  minResults?: number;
+  // Words counting as a match in a result's title or excerpt; defaults to the words of the query
+  terms?: string[];
+  // The results run over more than one page
+  paginated?: boolean;
+}
+
+export const SEARCH_QUERIES: SearchQuery[] = [
+  // English
+  { query: 'dog', expect: 'results', minResults: 3, terms: ['dog', 'puppy', 'aso', 'canine'], paginated: true },
+  { query: 'cat', expect: 'results', minResults: 2, terms: ['cat', 'kitten', 'pusa', 'feline'] },
+  { query: 'vaccination', expect: 'results', terms: ['vaccin', 'rabies', 'shot'] },
+  { query: 'grooming', expect: 'results', terms: ['groom', 'bath', 'fur'] },
+  // Tagalog
+  { query: 'aso', expect: 'results', terms: ['aso', 'dog', 'aspin'] },
+  { query: 'pusa', expect: 'results', terms: ['pusa', 'cat', 'puspin'] },
+  // No results
+  { query: 'zxqvbnm', expect: 'empty' },
+  { query: 'walangresultaditoxyz', expect: 'empty' },
+  // Special characters
+  { query: 'aso & pusa', expect: 'any' },
+  { query: '"rabies"', expect: 'any' },
+  { query: '100% natural', expect: 'any' },
+  { query: '<b>dog</b>', expect: 'any' },
+  { query: 'Parañaque', expect: 'any' },
+  { query: '🐶', expect: 'any' }
+];
+
+// Lower-case words of the query, without punctuation
+export function queryTerms(search: SearchQuery): string[] {
+  return search.terms || search.query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
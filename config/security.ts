@@ -0,0 +1,47 @@
+import * as path from 'path';
+
+// Header policy checked on every page by tests/security.spec.ts; move a rule between error and
+// warning by changing its severity.
+export type SecuritySeverity = 'error' | 'warning';
+
+export interface HeaderRule {
+  header: string;
+  severity: SecuritySeverity;
+  // The value has to match when the header is present
+  expected?: RegExp;
+}
+
+export interface SecurityPolicy {
+  headers: HeaderRule[];
+  // Headers that should not reveal the server software or its version
+  leaking: { header: string; pattern: RegExp }[];
+  hsts: { severity: SecuritySeverity; minMaxAge: number; includeSubDomains: boolean };
+  csp: { severity: SecuritySeverity; minScore: number };
+  cookies: { secure: SecuritySeverity; httpOnly: SecuritySeverity; sameSite: SecuritySeverity };
+  mixedContent: SecuritySeverity;
+  // meta generator and ?ver= asset URLs naming the WordPress version
+  versionLeak: SecuritySeverity;
+}
+
+export const SECURITY_POLICY: SecurityPolicy = {
+  headers: [
+    { header: 'x-content-type-options', severity: 'error', expected: /^nosniff$/i },
+    { header: 'x-frame-options', severity: 'warning', expected: /^(deny|sameorigin)$/i },
+    { header: 'referrer-policy', severity: 'warning', expected: /^(no-referrer|same-origin|strict-origin|strict-origin-when-cross-origin)$/i },
+    { header: 'permissions-policy', severity: 'warning' }
+  ],
+  leaking: [
+    { header: 'x-powered-by', pattern: /./ },
+    { header: 'server', pattern: /\d/ },
+    { header: 'x-generator', pattern: /./ }
+  ],
+  // 180 days, the minimum most scanners accept
+  hsts: { severity: 'error', minMaxAge: 15552000, includeSubDomains: true },
+  csp: { severity: 'warning', minScore: 60 },
+  cookies: { secure: 'error', httpOnly: 'warning', sameSite: 'warning' },
+  mixedContent: 'error',
+  versionLeak: 'warning'
+};
+
+// One JSON file per page for the security review; `npm run security:export` merges them
+export const SECURITY_REPORT_DIR = path.resolve(__dirname, '..', 'reports', 'security');
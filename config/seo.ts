@@ -0,0 +1,42 @@
+import { PageKind } from './site-map';
+
+// Rules applied by utils/seo.ts to every page in the site map: length limits, required social tags
+// and the schema.org properties expected per page kind.
+
+export const SEO_LIMITS = {
+  // Characters shown in search results before truncation
+  title: { min: 30, max: 65 },
+  description: { min: 70, max: 160 }
+};
+
+export const REQUIRED_OPEN_GRAPH = ['og:title', 'og:description', 'og:url', 'og:type', 'og:image'];
+// twitter:title and twitter:description fall back to the Open Graph values, so only the card type is required
+export const REQUIRED_TWITTER = ['twitter:card'];
+
+// schema.org properties Google requires for its breadcrumb rich result; missing ones are errors
+export const SCHEMA_REQUIRED_PROPERTIES: Record<string, string[]> = {
+  BreadcrumbList: ['itemListElement'],
+  ListItem: ['position', 'name']
+};
+
+// Properties Google only recommends (it lists none as required for Article), reported as warnings
+export const SCHEMA_RECOMMENDED_PROPERTIES: Record<string, string[]> = {
+  Article: ['headline', 'author', 'datePublished', 'image'],
+  BlogPosting: ['headline', 'author', 'datePublished', 'image'],
+  Organization: ['name', 'url'],
+  WebSite: ['name', 'url']
+};
+
+// JSON-LD types each kind of page is expected to declare (subtypes count, see SCHEMA_SUBTYPES)
+export const EXPECTED_SCHEMA_TYPES: Record<PageKind, string[]> = {
+  home: ['Organization', 'WebSite'],
+  category: ['BreadcrumbList'],
+  article: ['Article', 'BreadcrumbList'],
+  static: []
+};
+
+// More specific types that satisfy an expected type
+export const SCHEMA_SUBTYPES: Record<string, string[]> = {
+  Article: ['BlogPosting', 'NewsArticle'],
+  Organization: ['Corporation', 'LocalBusiness']
+};
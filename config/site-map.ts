@@ -0,0 +1,154 @@
+import { ARTICLE_MANIFESTS, ArticleManifest } from './articles';
+
+// Registry of every page under test. Specs, generated suites and the snapshot recorder read
+// their URLs, title patterns and keywords from here. Articles come from their content manifests
+// (content/articles/*.json), so adding an article means adding one manifest.
+export type PageKind = 'home' | 'category' | 'article' | 'static';
+
+export type CategorySlug = 'dogs' | 'cats' | 'food' | 'activity-and-exercise' | 'grooming' | 'health';
+
+export interface SitePage {
+  // Short stable identifier, e.g. 'category-food' or 'article-cat'
+  id: string;
+  kind: PageKind;
+  // Path relative to the environment's baseURL
+  path: string;
+  title: RegExp;
+  // Categories the page belongs to (a category page belongs to itself)
+  categories: CategorySlug[];
+  // Patterns expected somewhere in the page text, matched as case-insensitive regular expressions
+  keywords: string[];
+}
+
+// Display names as they appear in the site navigation, in menu order
+export const CATEGORIES: Record<CategorySlug, string> = {
+  'dogs': 'Dogs',
+  'cats': 'Cats',
+  'food': 'Food',
+  'activity-and-exercise': 'Activity and Exercise',
+  'grooming': 'Grooming',
+  'health': 'Health'
+};
+
+function articleSitePage(manifest: ArticleManifest): SitePage {
+  const unknown = manifest.categories.filter(slug => !(slug in CATEGORIES));
+  if (unknown.length > 0) {
+    throw new Error(`Article manifest "${manifest.id}" has unknown categories: ${unknown.join(', ')}`);
+  }
+
+  return {
+    id: manifest.id,
+    kind: 'article',
+    path: `/${manifest.slug}/`,
+    title: new RegExp(manifest.title, 'i'),
+    categories: manifest.categories,
+    keywords: manifest.requiredSections
+  };
+}
+
+export const SITE_MAP: readonly SitePage[] = [
+  {
+    id: 'home',
+    kind: 'home',
+    path: '/',
+    title: /pinoypetplan\.com.*alagang totoo/i,
+    categories: [],
+    keywords: ['pet', 'alaga']
+  },
+  {
+    id: 'about-us',
+    kind: 'static',
+    path: '/about-us/',
+    title: /about.*us|about.*pinoypetplan/i,
+    categories: [],
+    keywords: ['pet', 'about']
+  },
+  {
+    id: 'contact',
+    kind: 'static',
+    path: '/contact/',
+    title: /contact/i,
+    categories: [],
+    keywords: ['contact']
+  },
+  {
+    id: 'articles',
+    kind: 'static',
+    path: '/articles/',
+    title: /.*articles.*|.*blog.*|.*pinoy.*pet.*plan.*/i,
+    categories: [],
+    keywords: ['pet']
+  },
+  {
+    id: 'category-dogs',
+    kind: 'category',
+    path: '/category/dogs/',
+    title: /dogs/i,
+    categories: ['dogs'],
+    keywords: ['dog']
+  },
+  {
+    id: 'category-cats',
+    kind: 'category',
+    path: '/category/cats/',
+    title: /cats/i,
+    categories: ['cats'],
+    keywords: ['cat']
+  },
+  {
+    id: 'category-food',
+    kind: 'category',
+    path: '/category/food/',
+    title: /.*food.*/i,
+    categories: ['food'],
+    keywords: ['food', 'nutrition', 'diet', 'feed', 'treat', 'meal', 'recipe']
+  },
+  {
+    id: 'category-activity-and-exercise',
+    kind: 'category',
+    path: '/category/activity-and-exercise/',
+    title: /activity|exercise|pet|dog|cat/i,
+    categories: ['activity-and-exercise'],
+    keywords: ['dog.friendly', 'exercise', 'activity', 'walk']
+  },
+  {
+    id: 'category-grooming',
+    kind: 'category',
+    path: '/category/grooming/',
+    title: /grooming/i,
+    categories: ['grooming'],
+    keywords: ['grooming']
+  },
+  {
+    id: 'category-health',
+    kind: 'category',
+    path: '/category/health/',
+    title: /health/i,
+    categories: ['health'],
+    keywords: [
+      'veterinary', 'telemedicine', 'grooming', 'spaying', 'neutering',
+      'health', 'medicine', 'care', 'treatment', 'wellness'
+    ]
+  },
+  ...ARTICLE_MANIFESTS.map(articleSitePage)
+];
+
+export function sitePage(id: string): SitePage {
+  const page = SITE_MAP.find(entry => entry.id === id);
+  if (!page) {
+    throw new Error(`Unknown site map page "${id}". Known pages: ${SITE_MAP.map(entry => entry.id).join(', ')}`);
+  }
+  return page;
+}
+
+export function pagesOfKind(kind: PageKind): SitePage[] {
+  return SITE_MAP.filter(page => page.kind === kind);
+}
+
+export function categoryPage(slug: CategorySlug): SitePage {
+  return sitePage(`category-${slug}`);
+}
+
+export function articlesInCategory(slug: CategorySlug): SitePage[] {
+  return pagesOfKind('article').filter(page => page.categories.includes(slug));
+}
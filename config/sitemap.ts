@@ -0,0 +1,22 @@
+import { TIMEOUT } from './environments';
+
+// Settings for the sitemap and robots.txt checks (tests/sitemap.spec.ts). SITEMAP_MAX_URLS and
+// SITEMAP_CONCURRENCY override the defaults.
+export interface SitemapCheckOptions {
+  // Tried in order until one answers with XML: WordPress core, Yoast/Rank Math, and the generic name
+  candidates: string[];
+  // Listed URLs checked for status and canonical; the rest are only counted
+  maxUrls: number;
+  concurrency: number;
+  requestTimeout: number;
+  // Crawlers whose robots.txt rules must leave the pages under test alone
+  userAgents: string[];
+}
+
+export const SITEMAP_CHECK: SitemapCheckOptions = {
+  candidates: ['/wp-sitemap.xml', '/sitemap_index.xml', '/sitemap.xml'],
+  maxUrls: Number(process.env.SITEMAP_MAX_URLS || 500),
+  concurrency: Number(process.env.SITEMAP_CONCURRENCY || 8),
+  requestTimeout: TIMEOUT.MEDIUM,
+  userAgents: ['*', 'Googlebot', 'Bingbot']
+};
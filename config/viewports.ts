@@ -0,0 +1,12 @@
+// Viewport set used by the responsive and visual regression checks
+export interface NamedViewport {
+  name: 'Mobile' | 'Tablet' | 'Desktop';
+  width: number;
+  height: number;
+}
+
+export const VIEWPORTS: readonly NamedViewport[] = [
+  { name: 'Mobile', width: 375, height: 667 },
+  { name: 'Tablet', width: 768, height: 1024 },
+  { name: 'Desktop', width: 1200, height: 800 }
+];
@@ -0,0 +1,61 @@
+import { PageKind, SitePage } from './site-map';
+
+// Screenshot comparison settings for tests/visual.spec.ts. Defaults apply to every page, then
+// the page kind's settings, then the page's own; masks from all three are combined.
+export interface VisualSettings {
+  // Share of pixels allowed to differ (0-1)
+  maxDiffPixelRatio: number;
+  // Per-pixel colour distance treated as equal (0-1, Playwright's default is 0.2)
+  threshold: number;
+  fullPage: boolean;
+  // Selectors of regions painted over before comparing
+  mask: string[];
+}
+
+// Content that changes between visits without the layout changing
+export const DYNAMIC_REGIONS = {
+  dates: '.btArticleDate, time, .date, .post-date, .published',
+  ads: 'ins.adsbygoogle, [id^="google_ads"], iframe[src*="doubleclick"], iframe[src*="googlesyndication"], .advertisement',
+  sliders: '.bt_bb_slider, .slick-slider, .swiper, .owl-carousel, .carousel',
+  embeds: 'iframe[src*="youtube"], iframe[src*="facebook"], iframe[src*="google.com/maps"]'
+};
+
+// Article cards and paging links of a listing, which change whenever an article is published
+const LISTING_MASK = ['.btArticleListItem', '.bt_bb_blog_grid .bt_bb_grid_item', '.pagination, .nav-links'];
+
+const DEFAULTS: VisualSettings = {
+  maxDiffPixelRatio: 0.01,
+  threshold: 0.2,
+  fullPage: true,
+  mask: Object.values(DYNAMIC_REGIONS)
+};
+
+const BY_KIND: Partial<Record<PageKind, Partial<VisualSettings>>> = {
+  category: {
+    maxDiffPixelRatio: 0.02,
+    mask: LISTING_MASK
+  }
+};
+
+const BY_PAGE: Record<string, Partial<VisualSettings>> = {
+  'home': {
+    maxDiffPixelRatio: 0.03,
+    mask: ['.bt_bb_latest_posts', '.bt_bb_blog_grid', '.bt_bb_masonry_post_grid']
+  },
+  'articles': {
+    maxDiffPixelRatio: 0.02,
+    mask: LISTING_MASK
+  },
+  'contact': {
+    // The map embed renders tiles asynchronously
+    maxDiffPixelRatio: 0.02
+  }
+};
+
+export function visualSettings(page: SitePage): VisualSettings {
+  const layers = [DEFAULTS, BY_KIND[page.kind] || {}, BY_PAGE[page.id] || {}];
+  return {
+    ...Object.assign({}, ...layers),
+    mask: layers.flatMap(layer => layer.mask || [])
+  };
+}
@@ -0,0 +1,76 @@
+import { BasePage } from './BasePage';
+
+export class AboutUsPage extends BasePage {
+  readonly headingSelectors = [
+    'h1:has-text("About Us")',
+    'h1:has-text("About")',
+    'h1:has-text("Who We Are")',
+    'h1:has-text("Our Story")',
+    '.page-title:has-text("About")',
+    '.hero h1',
+    '.banner h1',
+    '.page-header h1',
+    'h1' // Any h1 as fallback
+  ];
+
+  readonly teamSelectors = [
+    '.team', '.our-team', '.staff', '.leadership',
+    '[class*="team"]', 'section:has-text("Team")',
+    'section:has-text("Staff")'
+  ];
+
+  readonly teamMemberSelectors = [
+    '.team-member', '.staff-member', '.person',
+    '.bio', '.profile', '[class*="member"]'
+  ];
+
+  readonly teamImageSelectors = [
+    'img[alt*="team" i]',
+    'img[alt*="staff" i]',
+    'img[src*="team" i]',
+    'img[src*="staff" i]',
+    '.team img',
+    '.staff img'
+  ];
+
+  readonly companyImageSelectors = [
+    'img[alt*="office" i]',
+    'img[alt*="company" i]',
+    'img[alt*="facility" i]',
+    'img[src*="office" i]',
+    'img[src*="company" i]'
+  ];
+
+  readonly statementSelectors = [
+    { name: 'Mission', selectors: ['.mission', '[class*="mission"]', 'section:has-text("Mission")', '*:has-text("Our Mission")'] },
+    { name: 'Vision', selectors: ['.vision', '[class*="vision"]', 'section:has-text("Vision")', '*:has-text("Our Vision")'] },
+    { name: 'Values', selectors: ['.values', '[class*="values"]', 'section:has-text("Values")', '*:has-text("Our Values")'] }
+  ];
+
+  readonly ctaSelectors = [
+    'button:has-text("Contact")',
+    'a:has-text("Contact")',
+    'button:has-text("Get Started")',
+    'a:has-text("Get Started")',
+    'button:has-text("Learn More")',
+    'a:has-text("Learn More")',
+    '.cta', '.call-to-action'
+  ];
+
+  readonly backLinkSelectors = [
+    'a:has-text("Back to")',
+    'a:has-text("Home")',
+    'a:has-text("← Back")',
+    '.back-link'
+  ];
+
+  sectionSelectors(section: string): string[] {
+    return [
+      `h2:has-text("${section}")`,
+      `h3:has-text("${section}")`,
+      `.section-title:has-text("${section}")`,
+      `[class*="section"]:has-text("${section}")`,
+      `*:has-text("${section}")` // Broad selector as fallback
+    ];
+  }
+}
@@ -0,0 +1,37 @@
+import { Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+
+const ARTICLE = {
+  title: 'h1, .article-title, .post-title, .entry-title',
+  body: 'article, .article-content, .post-content, .entry-content, .content, main',
+  paragraphs: 'p',
+  lists: 'ul, ol',
+  socialShare: '.social-share, .share-buttons, [class*="share"], [class*="social"], a[href*="facebook.com"], a[href*="twitter.com"], a[href*="linkedin.com"]',
+  searchForm: 'form[role="search"], .search-form, input[type="search"]',
+  formInputs: 'form input:not([type="hidden"]), form textarea',
+  internalLinks: 'a[href^="/"], a[href^="./"]'
+};
+
+export class ArticlePage extends BasePage {
+  readonly titleSelectors = ['h1', '.article-title', '.post-title', '.entry-title', '[class*="title"]'];
+
+  get title(): Locator { return this.page.locator(ARTICLE.title); }
+  get body(): Locator { return this.page.locator(ARTICLE.body); }
+  get paragraphs(): Locator { return this.page.locator(ARTICLE.paragraphs); }
+  get lists(): Locator { return this.page.locator(ARTICLE.lists); }
+  get socialShare(): Locator { return this.page.locator(ARTICLE.socialShare); }
+  get searchForm(): Locator { return this.page.locator(ARTICLE.searchForm); }
+  get formInputs(): Locator { return this.page.locator(ARTICLE.formInputs); }
+  get internalLinks(): Locator { return this.page.locator(`a[href*="${this.siteHost}"], ${ARTICLE.internalLinks}`); }
+
+  // First visible title element (across the known title selectors) whose text matches `pattern`
+  async findTitle(pattern: RegExp): Promise<Locator | null> {
+    for (const selector of this.titleSelectors) {
+      const title = this.page.locator(selector).filter({ hasText: pattern });
+      if (await title.first().isVisible().catch(() => false)) {
+        return title.first();
+      }
+    }
+    return null;
+  }
+}
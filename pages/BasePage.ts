@@ -0,0 +1,226 @@
+import { Page, Locator } from '@playwright/test';
+import { MobileMenu } from './MobileMenu';
+import { logResult } from '../utils/logger';
+
+// Site-wide layout selectors (Bold Themes WordPress layout plus generic fallbacks)
+const LAYOUT = {
+  header: 'header.mainHeader, header, .header, #header, .site-header',
+  navigation: 'nav, .nav, .navbar, .navigation, .main-nav, .main-menu, .menu, [role="navigation"]',
+  navLinks: 'nav a, .nav a, .menu a, .navigation a',
+  logo: 'img.btMainLogo, .btMainLogo, img[alt*="logo" i], img[alt="pinoypetplan.com"], .logo img, .site-logo img, .brand img, .logo',
+  footer: 'footer.btLightSkin, footer, .footer, #footer, .site-footer, [role="contentinfo"]',
+  footerLinks: 'footer a, .footer a',
+  mainContent: 'main, [role="main"], .btContentHolder, article, .content, .main-content, .post-content, .entry-content',
+  headings: 'h1, h2, h3, h4, h5, h6',
+  mobileMenuToggle: '.btVerticalMenuTrigger, .btHorizontalMenuTrigger, .hamburger, .menu-toggle, .mobile-menu-toggle, .mobile-menu-button, .nav-toggle, .bt_bb_mobile_menu, [class*="menu-btn"], [class*="nav-toggle"], button[aria-label*="menu" i]',
+  searchInput: 'input[type="search"], input[name="s"], input[placeholder*="search" i], .search-input, .search-form input, [class*="search"] input',
+  breadcrumb: '.breadcrumb, .breadcrumbs, [aria-label="breadcrumb"], nav[aria-label="breadcrumb"], .page-breadcrumb, .bt_bb_breadcrumbs',
+  skipLink: 'a[href="#main"], a[href="#content"], .skip-link'
+};
+
+export const SOCIAL_PLATFORMS = ['facebook', 'twitter', 'instagram', 'youtube', 'linkedin'];
+
+export interface FindOptions {
+  visible?: boolean;
+}
+
+// Shared page object for the header, navigation, footer and logo present on every page
+export class BasePage {
+  constructor(readonly page: Page) {}
+
+  // Layout elements
+  get header(): Locator { return this.page.locator(LAYOUT.header); }
+  get navigation(): Locator { return this.page.locator(LAYOUT.navigation); }
+  get navLinks(): Locator { return this.page.locator(LAYOUT.navLinks); }
+  get logo(): Locator { return this.page.locator(LAYOUT.logo); }
+  get footer(): Locator { return this.page.locator(LAYOUT.footer); }
+  get footerLinks(): Locator { return this.page.locator(LAYOUT.footerLinks).filter({ hasText: /.+/ }); }
+  get mainContent(): Locator { return this.page.locator(LAYOUT.mainContent); }
+  get headings(): Locator { return this.page.locator(LAYOUT.headings); }
+  get mobileMenuToggle(): Locator { return this.page.locator(LAYOUT.mobileMenuToggle); }
+  get mobileMenu(): MobileMenu { return new MobileMenu(this.page, this.mobileMenuToggle); }
+  get searchInput(): Locator { return this.page.locator(LAYOUT.searchInput); }
+  get breadcrumb(): Locator { return this.page.locator(LAYOUT.breadcrumb); }
+  get skipLink(): Locator { return this.page.locator(LAYOUT.skipLink); }
+  get images(): Locator { return this.page.locator('img'); }
+  get metaDescription(): Locator { return this.page.locator('meta[name="description"]'); }
+  get canonical(): Locator { return this.page.locator('link[rel="canonical"]'); }
+
+  navLink(text: string): Locator {
+    return this.page.locator([
+      `nav a:has-text("${text}")`,
+      `.menu a:has-text("${text}")`,
+      `.navigation a:has-text("${text}")`,
+      `header a:has-text("${text}")`,
+      `[role="navigation"] a:has-text("${text}")`
+    ].join(', '));
+  }
+
+  socialLink(platform: string): Locator {
+    return this.page.locator([
+      `a[href*="${platform}"]`,
+      `.social a[class*="${platform}"]`,
+      `a[class*="${platform}"]`,
+      `a[aria-label*="${platform}" i]`
+    ].join(', '));
+  }
+
+  // Host of the environment under test (production, staging or the local snapshot server)
+  get siteHost(): string {
+    return new URL(this.page.url()).host;
+  }
+
+  metaProperty(property: string): Locator {
+    return this.page.locator(`meta[property="${property}"]`);
+  }
+
+  // Utility methods
+  async waitForPageLoad(timeout?: number): Promise<void> {
+    await this.page.waitForLoadState('networkidle', { timeout });
+  }
+
+  async scrollToBottom(): Promise<void> {
+    await this.page.evaluate(() => {
+      window.scrollTo(0, document.body.scrollHeight);
+    });
+    await this.page.waitForTimeout(1000);
+  }
+
+  async bodyText(): Promise<string> {
+    return await this.page.textContent('body') || '';
+  }
+
+  async checkElementExists(selector: string, elementName: string): Promise<boolean> {
+    const element = this.page.locator(selector);
+    const count = await element.count();
+
+    if (count > 0) {
+      const isVisible = await element.first().isVisible();
+      if (isVisible) {
+        await logResult(`${elementName} found and visible${count > 1 ? ` (${count} total)` : ''}`);
+        return true;
+      } else {
+        await logResult(`${elementName} found but not visible${count > 1 ? ` (${count} total)` : ''}`, 'info', { page: this.page.url(), selector });
+        return false;
+      }
+    } else {
+      await logResult(`${elementName} not found`, 'info', { page: this.page.url(), selector });
+      return false;
+    }
+  }
+
+  // Returns the first selector in priority order that matches (and is visible, if requested)
+  async findFirst(selectors: string[], options: FindOptions = {}): Promise<Locator | null> {
+    for (const selector of selectors) {
+      const element = this.page.locator(selector);
+      if (await element.count() === 0) {
+        continue;
+      }
+      if (options.visible && !await element.first().isVisible().catch(() => false)) {
+        continue;
+      }
+      return element.first();
+    }
+    return null;
+  }
+
+  async validateResponse(url: string): Promise<number> {
+    try {
+      const response = await this.page.request.get(url);
+      return response.status();
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  async findKeywords(keywords: string[]): Promise<string[]> {
+    const pageText = await this.bodyText();
+    return keywords.filter(keyword => new RegExp(keyword, 'i').test(pageText));
+  }
+
+  async checkForKeywords(keywords: string[], category: string): Promise<string[]> {
+    const foundKeywords = await this.findKeywords(keywords);
+
+    if (foundKeywords.length > 0) {
+      await logResult(`${category} keywords found: ${foundKeywords.join(', ')}`);
+    } else {
+      await logResult(`No ${category} keywords found`, 'info');
+    }
+    return foundKeywords;
+  }
+
+  // Locator for a phrase, matched literally or as a whitespace-tolerant case-insensitive regex
+  mention(term: string): Locator {
+    return this.page.locator(`text=${term}`).or(
+      this.page.locator(`text=/${term.replace(/\s+/g, '.*')}/i`)
+    );
+  }
+
+  async countVisibleMentions(terms: string[]): Promise<number> {
+    let found = 0;
+    for (const term of terms) {
+      if (await this.mention(term).first().isVisible().catch(() => false)) {
+        found++;
+      }
+    }
+    return found;
+  }
+
+  // Counts link or button labels (matched case-insensitively) that are visible anywhere on the page
+  async countVisibleLinks(labels: string[]): Promise<number> {
+    let found = 0;
+    for (const label of labels) {
+      const link = this.page.locator('a, button').filter({ hasText: new RegExp(label, 'i') });
+      if (await link.first().isVisible().catch(() => false)) {
+        found++;
+      }
+    }
+    return found;
+  }
+
+  async headingStructure(): Promise<string[]> {
+    const structure: string[] = [];
+    for (const level of ['h1', 'h2', 'h3', 'h4', 'h5', 'h6']) {
+      const count = await this.page.locator(level).count();
+      if (count > 0) {
+        structure.push(`${level}: ${count}`);
+      }
+    }
+    return structure;
+  }
+
+  async countImagesWithAlt(): Promise<{ withAlt: number; total: number }> {
+    const total = await this.images.count();
+    let withAlt = 0;
+
+    for (let i = 0; i < total; i++) {
+      const alt = await this.images.nth(i).getAttribute('alt');
+      if (alt !== null && alt !== '') {
+        withAlt++;
+      }
+    }
+    return { withAlt, total };
+  }
+
+  async hasHorizontalScroll(): Promise<boolean> {
+    return await this.page.evaluate(() => document.body.scrollWidth > window.innerWidth);
+  }
+
+  async bodyFontSize(): Promise<number> {
+    const fontSize = await this.page.locator('body').evaluate(el => window.getComputedStyle(el).fontSize);
+    return parseInt(fontSize.replace('px', ''));
+  }
+
+  async pageStructure() {
+    const hasHeader = await this.header.count() > 0;
+    const hasContent = await this.mainContent.count() > 0;
+    const hasFooter = await this.footer.count() > 0;
+
+    return {
+      hasHeader,
+      hasContent,
+      hasFooter,
+      isValid: hasHeader && hasContent && hasFooter
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { Locator, Page } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { CATEGORIES, CategorySlug } from '../config/site-map';
+
+// Article listing selectors shared by the /category/* archives and the /articles/ index
+const LISTING = {
+  articleCards: '.btArticleListItem, .bt_bb_blog_grid .bt_bb_grid_item, article, .post, .entry, .blog-post',
+  articleTitles: '.btArticleListItem h2, .btArticleListItem h3, .bt_bb_blog_grid h3, .bt_bb_blog_grid h2, article h1, article h2, article h3, .entry-title, .post-title, .article-title',
+  articleDates: '.btArticleDate, .date, .post-date, .published, time',
+  articleExcerpts: '.bt_bb_blog_grid .bt_bb_text, .btArticleListItem p, .excerpt, .post-excerpt',
+  articleCategories: '.btArticleCategory, .categories, .category, .tags',
+  continueReading: 'a:has-text("CONTINUE READING")',
+  pagination: '.pagination, .page-numbers, .nav-links, .bt_bb_pagination, [class*="pagination"], [class*="pager"]',
+  paginationLinks: '.pagination a, .page-numbers a, .nav-links a',
+  olderPosts: 'a:has-text("Older Posts")',
+  newerPosts: 'a:has-text("Newer Posts")',
+  sidebar: 'aside, .sidebar, .widget-area, .bt_bb_sidebar',
+  categoriesWidget: '.widget-categories, .categories-widget',
+  recentPostsWidget: '.widget-recent-posts, .recent-posts'
+};
+
+// Parts of a single article card, relative to the card element
+const CARD = {
+  title: 'h2, h3, .bt_bb_headline, .entry-title, .post-title',
+  date: '.btArticleDate, .date, .post-date, .published, time',
+  excerpt: '.bt_bb_text, .excerpt, .post-excerpt, p',
+  categories: '.btArticleCategory, .categories, .category, .tags',
+  link: 'a[href]'
+};
+
+export const CATEGORY_NAMES = Object.values(CATEGORIES);
+
+// An article as listed on an archive page, read from its card
+export interface ListedArticle {
+  // Absolute URL the card's CONTINUE READING link points to
+  url: string;
+  title: string;
+  date: string;
+}
+
+export interface ArticleCard {
+  root: Locator;
+  title: Locator;
+  date: Locator;
+  excerpt: Locator;
+  categories: Locator;
+  links: Locator;
+  continueReading: Locator;
+}
+
+export class CategoryPage extends BasePage {
+  // `slug` is the category slug (e.g. 'food'); omit it for the /articles/ index
+  constructor(page: Page, readonly slug?: CategorySlug) {
+    super(page);
+  }
+
+  // Article listing
+  get articleCards(): Locator { return this.page.locator(LISTING.articleCards); }
+  get articleTitles(): Locator { return this.page.locator(LISTING.articleTitles); }
+  get articleDates(): Locator { return this.page.locator(LISTING.articleDates); }
+  get articleExcerpts(): Locator { return this.page.locator(LISTING.articleExcerpts); }
+  get articleCategories(): Locator { return this.page.locator(LISTING.articleCategories); }
+  get continueReadingLinks(): Locator { return this.page.locator(LISTING.continueReading); }
+
+  // Pagination
+  get pagination(): Locator { return this.page.locator(LISTING.pagination); }
+  get paginationLinks(): Locator { return this.page.locator(LISTING.paginationLinks); }
+  get olderPostsLink(): Locator { return this.page.locator(LISTING.olderPosts); }
+  get newerPostsLink(): Locator { return this.page.locator(LISTING.newerPosts); }
+
+  // Sidebar
+  get sidebar(): Locator { return this.page.locator(LISTING.sidebar); }
+  get categoriesWidget(): Locator { return this.page.locator(LISTING.categoriesWidget); }
+  get recentPostsWidget(): Locator { return this.page.locator(LISTING.recentPostsWidget); }
+
+  // Archive path of this category, e.g. '/category/food/'
+  get categoryPath(): string {
+    return this.slug ? `/category/${this.slug}/` : '/articles/';
+  }
+
+  articleCard(index: number): ArticleCard {
+    const root = this.articleCards.nth(index);
+    return {
+      root,
+      title: root.locator(CARD.title).filter({ hasText: /\S/ }),
+      date: root.locator(CARD.date),
+      excerpt: root.locator(CARD.excerpt).filter({ hasText: /\S/ }),
+      categories: root.locator(CARD.categories),
+      links: root.locator(CARD.link),
+      continueReading: root.locator(LISTING.continueReading)
+    };
+  }
+
+  // One entry per CONTINUE READING link, so nested card wrappers are not counted twice
+  async listedArticles(): Promise<ListedArticle[]> {
+    return await this.continueReadingLinks.evaluateAll((links, card) => links.map(link => {
+      const root = link.closest(card.root) || link.parentElement!;
+      const text = (selector: string) => (root.querySelector(selector)?.textContent || '').replace(/\s+/g, ' ').trim();
+      return {
+        url: (link as HTMLAnchorElement).href,
+        title: text(card.title),
+        date: text(card.date)
+      };
+    }), { root: LISTING.articleCards, title: CARD.title, date: CARD.date });
+  }
+
+  // Page numbers offered by the numbered pagination links
+  async paginationNumbers(): Promise<number[]> {
+    const labels = await this.paginationLinks.allTextContents();
+    return labels.map(label => label.trim()).filter(label => /^\d+$/.test(label)).map(Number);
+  }
+
+  categoryNavLink(slug: CategorySlug, name: string = CATEGORIES[slug]): Locator {
+    return this.page.locator(`a[href*="/category/${slug}"], a:has-text("${name}")`);
+  }
+
+  categoryTag(name: string): Locator {
+    return this.page.locator(`.btArticleCategory:has-text("${name}")`);
+  }
+
+  async articleTitleTexts(): Promise<string[]> {
+    return (await this.articleTitles.allTextContents()).map(title => title.trim()).filter(Boolean);
+  }
+
+  async articleSummary() {
+    const articleCount = await this.articleCards.count();
+    const titleCount = await this.articleTitles.count();
+    const dateCount = await this.articleDates.count();
+
+    return {
+      articleCount,
+      titleCount,
+      dateCount,
+      hasArticles: articleCount > 0
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { logResult } from '../utils/logger';
+
+export const CONTACT_FORM_FIELDS = [
+  { name: 'name', required: true },
+  { name: 'email', required: true },
+  { name: 'phone', required: false },
+  { name: 'subject', required: false },
+  { name: 'message', required: true }
+];
+
+export class ContactPage extends BasePage {
+  static readonly PHONE_PATTERN = /(\+63|0)[\d\s\-()]{7,}/;
+  static readonly EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
+  static readonly ADDRESS_PATTERN = /(street|avenue|road|blvd|philippines|manila|quezon|makati|taguig|pasig)/i;
+  static readonly HOURS_PATTERNS = [
+    /\d{1,2}:\d{2}\s*(AM|PM|am|pm)/,
+    /\d{1,2}(AM|PM|am|pm)/,
+    /(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i,
+    /(mon|tue|wed|thu|fri|sat|sun)/i
+  ];
+
+  get form(): Locator { return this.page.locator('form'); }
+  get telLinks(): Locator { return this.page.locator('a[href^="tel:"]'); }
+  get mailtoLinks(): Locator { return this.page.locator('a[href^="mailto:"]'); }
+
+  // Contact Form 7
+  get contactForm(): Locator { return this.page.locator('form.wpcf7-form'); }
+  get submitButton(): Locator { return this.contactForm.locator('input[type="submit"], button[type="submit"]'); }
+  get responseOutput(): Locator { return this.contactForm.locator('.wpcf7-response-output'); }
+  get validationTips(): Locator { return this.contactForm.locator('.wpcf7-not-valid-tip'); }
+
+  // Contact Form 7 names its fields "your-<name>"
+  field(name: string): Locator {
+    return this.page.locator([name, `your-${name}`].flatMap(candidate => [
+      `input[name="${candidate}"]`,
+      `input[id="${candidate}"]`,
+      `textarea[name="${candidate}"]`,
+      `textarea[id="${candidate}"]`,
+      `select[name="${candidate}"]`,
+      `select[id="${candidate}"]`
+    ]).join(', '));
+  }
+
+  // The "Please fill out this field." message Contact Form 7 shows next to an invalid field
+  validationTip(name: string): Locator {
+    return this.field(name).first().locator('xpath=following-sibling::*[contains(@class, "wpcf7-not-valid-tip")]');
+  }
+
+  async fillForm(formData: Record<string, string>): Promise<boolean> {
+    try {
+      for (const [name, value] of Object.entries(formData)) {
+        const element = this.field(name).first();
+        if (await element.isVisible().catch(() => false)) {
+          await element.fill(value);
+          await logResult(`Filled ${name} field with: ${value}`);
+        } else {
+          await logResult(`Could not find ${name} field`, 'warning');
+        }
+      }
+      return true;
+    } catch (error) {
+      await logResult(`Error filling form: ${error}`, 'warning');
+      return false;
+    }
+  }
+
+  async submitContactForm(): Promise<void> {
+    await this.submitButton.first().click();
+  }
+}
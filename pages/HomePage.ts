@@ -0,0 +1,40 @@
+import { Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { sitePage } from '../config/site-map';
+
+export class HomePage extends BasePage {
+  static readonly TITLE = sitePage('home').title;
+
+  readonly logoSelectors = [
+    'img[alt*="logo" i]',
+    '.logo img',
+    'header img',
+    '.btMainLogo',
+    'img[alt="pinoypetplan.com"]',
+    '.site-logo img',
+    '.brand img'
+  ];
+
+  readonly siteTitleSelectors = ['h1', '.site-title', '.brand', '.logo-text'];
+
+  readonly heroSelectors = [
+    '.hero', '.banner', '.main-banner',
+    'section:first-of-type', '.hero-section'
+  ];
+
+  readonly formSelectors = ['form', '.contact-form', '.form', '[role="form"]'];
+
+  readonly formFields = [
+    { name: 'name', selector: 'input[name*="name" i], input[id*="name" i], input[placeholder*="name" i]' },
+    { name: 'email', selector: 'input[type="email"], input[name*="email" i], input[id*="email" i]' },
+    { name: 'message', selector: 'textarea, input[name*="message" i], input[id*="message" i]' },
+    { name: 'submit', selector: 'button[type="submit"], input[type="submit"], .submit-btn, button:has-text("Submit")' }
+  ];
+
+  get telLinks(): Locator { return this.page.locator('a[href^="tel:"]'); }
+  get mailtoLinks(): Locator { return this.page.locator('a[href^="mailto:"]'); }
+
+  footerLink(text: string): Locator {
+    return this.page.locator(`footer a:has-text("${text}"), .footer a:has-text("${text}")`);
+  }
+}
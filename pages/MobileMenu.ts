@@ -0,0 +1,106 @@
+import { Locator, Page } from '@playwright/test';
+
+// Collapsed header menu of the Bold Themes layout on phones and tablets, plus generic fallbacks.
+// The theme shows the menu in .menuPort and adds a .subToggler next to items with a submenu.
+const MENU = {
+  panel: '.menuPort, .mobile-menu, #mobile-menu, .mobile-navigation, header nav',
+  close: '.btCloseVertical, .menu-close, .mobile-menu-close, button[aria-label*="close menu" i]',
+  submenuToggle: '.subToggler, .sub-menu-toggle, .submenu-toggle, .menu-item-has-children > button',
+  focusable: 'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])'
+};
+
+export interface TouchTarget {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export class MobileMenu {
+  // toggleCandidates: every hamburger the layout might render; the visible one is used
+  constructor(readonly page: Page, private readonly toggleCandidates: Locator) {}
+
+  get toggle(): Locator { return this.toggleCandidates.filter({ visible: true }).first(); }
+  get panel(): Locator { return this.page.locator(MENU.panel); }
+  // Links currently shown, so empty while the menu is closed
+  get links(): Locator { return this.panel.locator('a[href]').filter({ visible: true }); }
+  get closeButton(): Locator { return this.page.locator(MENU.close).filter({ visible: true }).first(); }
+  get submenuToggles(): Locator { return this.panel.locator(MENU.submenuToggle).filter({ visible: true }); }
+
+  item(label: string): Locator {
+    return this.panel.getByRole('link', { name: label, exact: true }).filter({ visible: true }).first();
+  }
+
+  async isOpen(): Promise<boolean> {
+    return await this.links.count() > 0;
+  }
+
+  async open(): Promise<void> {
+    if (!await this.isOpen()) {
+      await this.toggle.click();
+    }
+    await this.links.first().waitFor({ state: 'visible' });
+  }
+
+  // Uses the close button when the open menu has one, otherwise the hamburger again
+  async close(): Promise<void> {
+    if (!await this.isOpen()) {
+      return;
+    }
+    const button = await this.closeButton.count() > 0 ? this.closeButton : this.toggle;
+    await button.click();
+    await this.links.first().waitFor({ state: 'hidden' });
+  }
+
+  // Opens submenus until no collapsed one is left, for menus nested several levels deep
+  async expandSubmenus(maxLevels = 3): Promise<void> {
+    for (let level = 0; level < maxLevels; level++) {
+      const before = await this.links.count();
+      const toggles = await this.submenuToggles.all();
+      for (const toggle of toggles) {
+        if (await toggle.getAttribute('aria-expanded') !== 'true' && !/\bon\b/.test(await toggle.getAttribute('class') || '')) {
+          await toggle.click();
+        }
+      }
+      if (await this.links.count() === before) {
+        return;
+      }
+    }
+  }
+
+  // Internal links of the open menu, without duplicates and in-page anchors
+  async internalLinks(): Promise<string[]> {
+    const origin = new URL(this.page.url()).origin;
+    const hrefs = await this.links.evaluateAll(links => links.map(link => (link as HTMLAnchorElement).href));
+    return [...new Set(hrefs.filter(href => href.startsWith(origin) && !href.includes('#')))];
+  }
+
+  // Rendered size of the hamburger and of every link shown in the menu
+  async touchTargets(): Promise<TouchTarget[]> {
+    const targets: TouchTarget[] = [];
+    for (const element of [this.toggle, ...await this.links.all()]) {
+      const box = await element.boundingBox();
+      if (box) {
+        const label = (await element.innerText()).trim() || await element.getAttribute('aria-label') || 'menu toggle';
+        targets.push({ label, width: Math.round(box.width), height: Math.round(box.height) });
+      }
+    }
+    return targets;
+  }
+
+  // Whether keyboard focus is on the menu, its close button or the hamburger
+  async hasFocus(): Promise<boolean> {
+    const toggleHandle = await this.toggle.elementHandle();
+    return await this.page.evaluate(({ selectors, toggle }) => {
+      const active = document.activeElement;
+      if (!active || active === document.body) {
+        return false;
+      }
+      return !!active.closest(selectors.panel) || !!active.closest(selectors.close) || (!!toggle && toggle.contains(active));
+    }, { selectors: MENU, toggle: toggleHandle });
+  }
+
+  // Elements Tab can reach inside the open menu
+  async focusableCount(): Promise<number> {
+    return await this.panel.locator(MENU.focusable).filter({ visible: true }).count();
+  }
+}
@@ -0,0 +1,65 @@
+import { Locator, Page } from '@playwright/test';
+import { CategoryPage } from './CategoryPage';
+
+const SEARCH = {
+  toggle: '.btSearchInner .btSearchToggle, .btSearch, .search-toggle, button[aria-label*="search" i]',
+  emptyState: '.no-results, .not-found, .search-no-results .page-content, .btNoSearchResults'
+};
+
+export interface SearchResult {
+  title: string;
+  excerpt: string;
+}
+
+// WordPress search results (/?s=<query>), listed with the same cards as the category archives
+export class SearchResultsPage extends CategoryPage {
+  static readonly EMPTY_STATE_TEXT = /nothing (was )?found|no results|did not match any|sorry, but nothing matched/i;
+
+  constructor(page: Page) {
+    super(page);
+  }
+
+  // Results page path for a query; later pages are /page/<n>/?s=<query>
+  static path(query: string, pageNumber = 1): string {
+    const prefix = pageNumber > 1 ? `/page/${pageNumber}/` : '/';
+    return `${prefix}?s=${encodeURIComponent(query)}`;
+  }
+
+  get emptyState(): Locator {
+    return this.page.locator(SEARCH.emptyState).or(this.page.getByText(SearchResultsPage.EMPTY_STATE_TEXT)).first();
+  }
+
+  // The query the results page was rendered for, read from its URL
+  get query(): string | null {
+    return new URL(this.page.url()).searchParams.get('s');
+  }
+
+  // Searches with the site's search box, opening it first when it sits behind a toggle
+  async search(query: string): Promise<void> {
+    const input = this.searchInput.filter({ visible: true }).first();
+    if (await input.count() === 0) {
+      await this.page.locator(SEARCH.toggle).filter({ visible: true }).first().click();
+    }
+    await input.fill(query);
+    await input.press('Enter');
+    await this.page.waitForURL(url => url.searchParams.has('s'));
+    await this.waitForPageLoad();
+  }
+
+  // Title and excerpt of each result, one entry per card
+  async results(): Promise<SearchResult[]> {
+    const count = await this.articleCards.count();
+    const results: SearchResult[] = [];
+    for (let i = 0; i < count; i++) {
+      const card = this.articleCard(i);
+      // allTextContents() doesn't wait for cards without an excerpt
+      const title = ((await card.title.allTextContents())[0] || '').trim();
+      const excerpt = ((await card.excerpt.allTextContents())[0] || '').trim();
+      if (title) {
+        results.push({ title, excerpt });
+      }
+    }
+    // Nested card wrappers match the card selector twice
+    return results.filter((result, index) => results.findIndex(other => other.title === result.title) === index);
+  }
+}
@@ -0,0 +1,11 @@
+export { BasePage, SOCIAL_PLATFORMS } from './BasePage';
+export { MobileMenu } from './MobileMenu';
+export type { TouchTarget } from './MobileMenu';
+export { HomePage } from './HomePage';
+export { CategoryPage, CATEGORY_NAMES } from './CategoryPage';
+export type { ArticleCard, ListedArticle } from './CategoryPage';
+export { ArticlePage } from './ArticlePage';
+export { AboutUsPage } from './AboutUsPage';
+export { ContactPage, CONTACT_FORM_FIELDS } from './ContactPage';
+export { SearchResultsPage } from './SearchResultsPage';
+export type { SearchResult } from './SearchResultsPage';
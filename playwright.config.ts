@@ -0,0 +1,63 @@
+import { defineConfig } from '@playwright/test';
+import { ENVIRONMENTS, TIMEOUT, selectedEnvironments } from './config/environments';
+import { DEVICE_INDEPENDENT_SPECS, ProjectMetadata, selectedDevices } from './config/devices';
+import type { DeviceOptions } from './tests/fixtures';
+
+// One project per selected environment profile and device, e.g. "production-webkit-phone".
+// TEST_ENV picks the environments (e.g. staging or all), DEVICES the devices (see config/devices.ts).
+const projects = selectedEnvironments().flatMap(environment => selectedDevices().map((device, index) => ({
+  name: `${environment}-${device.name}`,
+  metadata: { environment, device: device.name } satisfies ProjectMetadata,
+  testIgnore: index === 0 ? undefined : DEVICE_INDEPENDENT_SPECS,
+  use: {
+    ...device.emulation,
+    browserName: device.browser,
+    device,
+    baseURL: ENVIRONMENTS[environment].baseURL
+  }
+})));
+
+export default defineConfig<DeviceOptions>({
+  testDir: './tests',
+  // Sets RUN_ID for the results written to reports/
+  globalSetup: './tests/global-setup.ts',
+  timeout: 2 * TIMEOUT.LONG,
+  expect: {
+    timeout: TIMEOUT.SHORT,
+    // Visual baselines live next to the tests, one set per platform and project (environment and device)
+    toHaveScreenshot: {
+      pathTemplate: '{testDir}/__screenshots__/{testFilePath}/{platform}/{projectName}/{arg}{ext}'
+    },
+    // ARIA baselines are plain YAML and don't depend on the platform
+    toMatchAriaSnapshot: {
+      pathTemplate: '{testDir}/__snapshots__/{testFilePath}/{arg}{ext}'
+    }
+  },
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 2 : 0,
+  workers: process.env.CI ? 1 : undefined,
+  // The HTML report shows attachments such as accessibility violations and element screenshots;
+  // soft-findings summarises the warnings recorded with utils/findings.ts; dashboard is the
+  // per-page content QA overview
+  reporter: [
+    ['list'],
+    ['html', { open: 'never' }],
+    ['./reporters/soft-findings.ts', { outputFile: 'reports/soft-findings.json' }],
+    ['./reporters/dashboard.ts', { outputFile: 'reports/dashboard.html' }]
+  ],
+  use: {
+    ignoreHTTPSErrors: true,
+    actionTimeout: TIMEOUT.MEDIUM,
+    navigationTimeout: TIMEOUT.LONG,
+    screenshot: 'only-on-failure',
+    trace: 'on-first-retry'
+  },
+  projects,
+  // The local environment replays a recorded snapshot (see scripts/serve-snapshot.ts)
+  webServer: selectedEnvironments().includes('local') ? {
+    command: 'npm run snapshot:serve',
+    url: ENVIRONMENTS.local.baseURL,
+    reuseExistingServer: !process.env.CI
+  } : undefined
+});
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { CHECK_AREAS, CheckArea, CheckStatus, DashboardCheck, PAGE_ANNOTATION, renderDashboardHtml } from '../utils/dashboard';
+import { projectMetadata } from '../utils/devices';
+import { readFindings } from './soft-findings';
+
+// Writes the content QA dashboard: every test tagged with a check area (see utils/dashboard.ts)
+// becomes a pass/warn/fail entry for its page. The HTML needs no network to open.
+
+export interface DashboardOptions {
+  // Relative to the config directory
+  outputFile?: string;
+}
+
+const DEFAULT_OUTPUT = 'reports/dashboard.html';
+// Colour codes in expect() messages
+const ANSI_CODES = /\u001b\[[0-9;]*m/g;
+
+function checkStatus(test: TestCase, result: TestResult, warnings: string[]): CheckStatus {
+  if (result.status === 'skipped') return 'skip';
+  if (test.outcome() === 'unexpected') return 'fail';
+  return warnings.length > 0 || test.outcome() === 'flaky' ? 'warn' : 'pass';
+}
+
+class DashboardReporter implements Reporter {
+  private outputFile = DEFAULT_OUTPUT;
+  // Keyed by test id so only the last retry counts
+  private checks = new Map<string, DashboardCheck>();
+
+  constructor(private options: DashboardOptions = {}) {}
+
+  onBegin(config: FullConfig): void {
+    this.outputFile = path.resolve(path.dirname(config.configFile || ''), this.options.outputFile || DEFAULT_OUTPUT);
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const pageId = test.annotations.find(annotation => annotation.type === PAGE_ANNOTATION)?.description;
+    const area = CHECK_AREAS.find(candidate => test.tags.includes(`@${candidate}`)) as CheckArea | undefined;
+    if (!pageId || !area) {
+      return;
+    }
+
+    const warnings = readFindings(result)
+      .filter(finding => finding.level !== 'info')
+      .map(finding => finding.message);
+    const status = checkStatus(test, result, warnings);
+    const errors = status === 'fail' ? result.errors.map(error => (error.message || '').replace(ANSI_CODES, '').split('\n')[0]) : [];
+
+    this.checks.set(test.id, {
+      pageId,
+      area,
+      title: test.title,
+      ...projectMetadata(test.parent.project() ?? { name: '', metadata: {} }),
+      status,
+      notes: [...errors, ...warnings]
+    });
+  }
+
+  onEnd(): void {
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, renderDashboardHtml([...this.checks.values()], new Date().toISOString()));
+    console.log(`Content QA dashboard: ${path.relative(process.cwd(), this.outputFile)}`);
+  }
+}
+
+export default DashboardReporter;
@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { FINDING_ATTACHMENT, Finding } from '../utils/findings';
+
+// Collects the findings recorded with utils/findings.ts across the whole run and summarises the
+// warnings and failures at the end: on the console and as JSON in `outputFile`.
+
+export interface SoftFindingsOptions {
+  // Relative to the config directory
+  outputFile?: string;
+}
+
+export interface ReportedFinding extends Finding {
+  test: string;
+  project: string;
+  file: string;
+}
+
+export interface SoftFindingsSummary {
+  generatedAt: string;
+  counts: Record<Finding['level'], number>;
+  // Warnings and failures with the same message, most frequent first
+  groups: { level: Finding['level']; message: string; tests: string[] }[];
+  findings: ReportedFinding[];
+}
+
+const DEFAULT_OUTPUT = 'reports/soft-findings.json';
+// Groups printed to the console; the JSON file has all of them
+const MAX_PRINTED_GROUPS = 20;
+
+export function readFindings(result: TestResult): Finding[] {
+  return result.attachments
+    .filter(attachment => attachment.name === FINDING_ATTACHMENT && attachment.body)
+    .map(attachment => JSON.parse(attachment.body!.toString('utf-8')) as Finding);
+}
+
+class SoftFindingsReporter implements Reporter {
+  private outputFile = DEFAULT_OUTPUT;
+  // Keyed by test id so only the last retry counts
+  private byTest = new Map<string, ReportedFinding[]>();
+
+  constructor(private options: SoftFindingsOptions = {}) {}
+
+  onBegin(config: FullConfig): void {
+    this.outputFile = path.resolve(path.dirname(config.configFile || ''), this.options.outputFile || DEFAULT_OUTPUT);
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const title = test.titlePath().slice(3).join(' › ');
+    const project = test.parent.project()?.name || '';
+    this.byTest.set(test.id, readFindings(result).map(finding => ({
+      ...finding,
+      test: title,
+      project,
+      file: path.relative(process.cwd(), test.location.file)
+    })));
+  }
+
+  onEnd(): void {
+    const findings = [...this.byTest.values()].flat();
+    const counts = { info: 0, warning: 0, failure: 0 };
+    const groups = new Map<string, SoftFindingsSummary['groups'][number]>();
+
+    for (const finding of findings) {
+      counts[finding.level]++;
+      if (finding.level === 'info') continue;
+
+      const key = `${finding.level}\n${finding.message}`;
+      const group = groups.get(key) || { level: finding.level, message: finding.message, tests: [] };
+      group.tests.push([finding.project, finding.test].filter(Boolean).join(' › '));
+      groups.set(key, group);
+    }
+
+    const summary: SoftFindingsSummary = {
+      generatedAt: new Date().toISOString(),
+      counts,
+      groups: [...groups.values()].sort((a, b) => b.tests.length - a.tests.length),
+      findings
+    };
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(summary, null, 2));
+
+    console.log(`\nSoft findings: ${counts.failure} failure(s), ${counts.warning} warning(s), ${counts.info} info`);
+    for (const group of summary.groups.slice(0, MAX_PRINTED_GROUPS)) {
+      console.log(`  ${group.level === 'failure' ? '✗' : '⚠'} ${group.message} (${group.tests.length} test(s))`);
+    }
+    if (summary.groups.length > MAX_PRINTED_GROUPS) {
+      console.log(`  ... and ${summary.groups.length - MAX_PRINTED_GROUPS} more`);
+    }
+    console.log(`  Details: ${path.relative(process.cwd(), this.outputFile)}`);
+  }
+}
+
+export default SoftFindingsReporter;
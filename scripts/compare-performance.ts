@@ -0,0 +1,43 @@
+import { PERFORMANCE_HISTORY_PATH, REGRESSION_DEFAULTS } from '../config/performance';
+import { findRegressions, readPerformanceHistory, recordKey } from '../utils/performance-history';
+import { logResult } from '../utils/logger';
+
+// Flags performance regressions: the latest measurement of each page/browser/viewport against the
+// runs before it. Exits with 1 when something regressed.
+// Usage: npm run perf:compare -- [runs]   (runs defaults to 10; PERF_HISTORY picks the history file)
+
+async function compare(runs: number): Promise<number> {
+  const history = readPerformanceHistory(PERFORMANCE_HISTORY_PATH);
+  if (history.length === 0) {
+    await logResult(`No performance history at ${PERFORMANCE_HISTORY_PATH}. Run tests/performance.spec.ts first.`, 'warning');
+    return 0;
+  }
+
+  const options = { ...REGRESSION_DEFAULTS, runs };
+  const regressions = findRegressions(history, options);
+  const keys = new Set(history.map(recordKey));
+  await logResult(`Compared ${keys.size} page/browser/viewport combination(s) with up to ${runs} earlier run(s) each`, 'info');
+
+  for (const regression of regressions) {
+    await logResult(`${regression.key}: ${regression.metric} ${Math.round(regression.latest * 1000) / 1000} at ${regression.latestCommit}`
+      + ` vs mean ${Math.round(regression.mean * 1000) / 1000} ± ${Math.round(regression.stdDev * 1000) / 1000}`
+      + ` over ${regression.runs} run(s) (+${Math.round(regression.change * 100)}%)`, 'warning');
+  }
+
+  if (regressions.length === 0) {
+    await logResult('No significant performance regressions');
+    return 0;
+  }
+  return 1;
+}
+
+const runs = process.argv[2] ? Number(process.argv[2]) : REGRESSION_DEFAULTS.runs;
+if (!Number.isInteger(runs) || runs < 1) {
+  console.error(`Expected a positive number of runs, got "${process.argv[2]}"`);
+  process.exit(1);
+}
+
+compare(runs).then(code => process.exit(code)).catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SECURITY_REPORT_DIR } from '../config/security';
+import { SecurityAudit } from '../utils/security';
+import { logResult } from '../utils/logger';
+
+// Merges the per-page results of tests/security.spec.ts into one JSON file and one CSV (a row per
+// issue) for the security review. Only the latest run is exported; files left by earlier runs (an
+// older run id, e.g. for a page since removed from the site map) are skipped.
+// Usage: npm run security:export
+
+const OUTPUT_DIR = path.dirname(SECURITY_REPORT_DIR);
+
+// A result file as written by the spec; runId is set by tests/global-setup.ts
+type SecurityResult = SecurityAudit & { runId?: string };
+
+function csvCell(value: unknown): string {
+  const text = value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function exportReview(): Promise<number> {
+  if (!fs.existsSync(SECURITY_REPORT_DIR)) {
+    await logResult(`No security results in ${SECURITY_REPORT_DIR}. Run tests/security.spec.ts first.`, 'warning');
+    return 1;
+  }
+
+  const results: SecurityResult[] = fs.readdirSync(SECURITY_REPORT_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(SECURITY_REPORT_DIR, file), 'utf8')));
+  // Run ids are ISO timestamps, so the newest sorts last
+  const runId = results.map(result => result.runId).filter((id): id is string => !!id).sort().pop();
+  const audits: SecurityAudit[] = results.filter(result => result.runId === runId);
+  if (audits.length < results.length) {
+    await logResult(`Skipped ${results.length - audits.length} result(s) from earlier runs in ${SECURITY_REPORT_DIR}`, 'info');
+  }
+
+  const review = {
+    generatedAt: new Date().toISOString(),
+    runId,
+    pages: audits.length,
+    errors: audits.reduce((count, audit) => count + audit.issues.filter(issue => issue.severity === 'error').length, 0),
+    warnings: audits.reduce((count, audit) => count + audit.issues.filter(issue => issue.severity === 'warning').length, 0),
+    audits
+  };
+  const jsonPath = path.join(OUTPUT_DIR, 'security-review.json');
+  fs.writeFileSync(jsonPath, JSON.stringify(review, null, 2));
+
+  const rows: unknown[][] = [['page', 'url', 'csp_score', 'check', 'severity', 'message', 'evidence']];
+  for (const audit of audits) {
+    for (const issue of audit.issues) {
+      rows.push([audit.pageId, audit.url, audit.csp.score, issue.check, issue.severity, issue.message, issue.evidence]);
+    }
+  }
+  const csvPath = path.join(OUTPUT_DIR, 'security-review.csv');
+  fs.writeFileSync(csvPath, rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n');
+
+  await logResult(`${audits.length} page(s), ${review.errors} error(s), ${review.warnings} warning(s): ${jsonPath}, ${csvPath}`, 'info');
+  return 0;
+}
+
+exportReview().then(code => process.exit(code)).catch(error => {
+  console.error(error);
+  process.exit(1);
+});
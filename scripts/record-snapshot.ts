@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { chromium, request, Response } from '@playwright/test';
+import { SITEMAP_CHECK } from '../config/sitemap';
+import {
+  SNAPSHOT_ORIGIN,
+  SNAPSHOT_PATHS,
+  SnapshotManifest,
+  snapshotDir,
+  snapshotFilePath,
+  writeManifest
+} from '../utils/snapshot';
+import { fetchSitemap, sitePath } from '../utils/sitemap';
+import { logResult } from '../utils/logger';
+
+// Records the pages under test, plus every asset they load, into fixtures/snapshots/<version>/, along
+// with robots.txt, the sitemaps and the pages they list, so tests/sitemap.spec.ts runs offline too.
+// Usage: npm run snapshot:record -- [version]   (version defaults to today's date)
+
+// What saveEntry needs from a page or API response
+interface RecordedResponse {
+  status(): number;
+  headers(): Record<string, string>;
+  body(): Promise<Buffer>;
+}
+
+async function saveEntry(url: string, response: RecordedResponse, manifest: SnapshotManifest): Promise<void> {
+  const status = response.status();
+  const contentType = response.headers()['content-type'] || 'application/octet-stream';
+
+  if (status >= 300 && status < 400) {
+    manifest.entries[url] = { status, contentType, location: response.headers()['location'] };
+    return;
+  }
+
+  try {
+    const body = await response.body();
+    const file = snapshotFilePath(url, contentType);
+    const target = path.join(snapshotDir(manifest.version), file);
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, body);
+    manifest.entries[url] = { status, contentType, file };
+  } catch (error) {
+    await logResult(`Could not read body of ${url}: ${error}`, 'warning');
+  }
+}
+
+async function saveResponse(response: Response, manifest: SnapshotManifest): Promise<void> {
+  const url = response.url();
+  if (response.request().method() !== 'GET' || url.startsWith('data:') || manifest.entries[url]) {
+    return;
+  }
+  await saveEntry(url, response, manifest);
+}
+
+// No page loads robots.txt or the sitemaps, so they are requested directly, along with the HTML of
+// the pages the sitemaps list (up to SITEMAP_MAX_URLS, redirects kept as they are)
+async function recordSitemaps(manifest: SnapshotManifest): Promise<void> {
+  const api = await request.newContext({ baseURL: SNAPSHOT_ORIGIN, ignoreHTTPSErrors: true });
+  try {
+    const paths = ['/robots.txt'];
+    try {
+      const sitemap = await fetchSitemap(api, SITEMAP_CHECK);
+      paths.push(sitemap.root, ...sitemap.children.map(sitePath), ...sitemap.urls.slice(0, SITEMAP_CHECK.maxUrls).map(sitePath));
+    } catch (error) {
+      await logResult(`No sitemap recorded: ${error instanceof Error ? error.message : error}`, 'warning');
+    }
+
+    for (const requestPath of paths) {
+      const url = new URL(requestPath, SNAPSHOT_ORIGIN).href;
+      if (manifest.entries[url]) {
+        continue;
+      }
+      const response = await api.get(requestPath, { maxRedirects: 0, timeout: SITEMAP_CHECK.requestTimeout }).catch(() => null);
+      if (response) {
+        await saveEntry(url, response, manifest);
+      }
+    }
+    await logResult(`Recorded robots.txt and ${paths.length - 1} sitemap and listed page URL(s)`);
+  } finally {
+    await api.dispose();
+  }
+}
+
+async function record(version: string): Promise<void> {
+  const dir = snapshotDir(version);
+  if (fs.existsSync(dir)) {
+    throw new Error(`Snapshot "${version}" already exists at ${dir}. Pick a new version name.`);
+  }
+  fs.mkdirSync(dir, { recursive: true });
+
+  const manifest: SnapshotManifest = {
+    version,
+    origin: SNAPSHOT_ORIGIN,
+    recordedAt: new Date().toISOString(),
+    pages: SNAPSHOT_PATHS,
+    entries: {}
+  };
+
+  const browser = await chromium.launch();
+  const context = await browser.newContext({ ignoreHTTPSErrors: true, viewport: { width: 1280, height: 720 } });
+  const pending: Promise<void>[] = [];
+  context.on('response', response => {
+    pending.push(saveResponse(response, manifest));
+  });
+
+  try {
+    const page = await context.newPage();
+    for (const pagePath of SNAPSHOT_PATHS) {
+      const url = new URL(pagePath, SNAPSHOT_ORIGIN).href;
+      await page.goto(url, { waitUntil: 'networkidle' });
+
+      // Scroll through the page so lazy-loaded images are requested too
+      await page.evaluate(async () => {
+        for (let y = 0; y < document.body.scrollHeight; y += window.innerHeight) {
+          window.scrollTo(0, y);
+          await new Promise(resolve => setTimeout(resolve, 200));
+        }
+      });
+      await page.waitForLoadState('networkidle');
+      await logResult(`Recorded ${pagePath}`);
+    }
+    await Promise.all(pending);
+  } finally {
+    await context.close();
+    await browser.close();
+  }
+  await recordSitemaps(manifest);
+
+  writeManifest(manifest);
+  await logResult(`Snapshot "${version}" saved to ${dir} (${Object.keys(manifest.entries).length} responses)`);
+}
+
+const version = process.argv[2] || new Date().toISOString().slice(0, 10);
+record(version).catch(error => {
+  console.error(error);
+  process.exit(1);
+});
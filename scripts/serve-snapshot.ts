@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { ENVIRONMENTS } from '../config/environments';
+import {
+  EXTERNAL_PREFIX,
+  SnapshotEntry,
+  isTextContent,
+  readManifest,
+  resolveSnapshotVersion,
+  rewriteOrigins,
+  snapshotDir
+} from '../utils/snapshot';
+import { logResult } from '../utils/logger';
+
+// Serves a recorded snapshot so the suite can run with no network (the `local` environment).
+// Usage: npm run snapshot:serve   (SNAPSHOT_VERSION picks a recording, LOCAL_URL sets the port)
+
+const version = resolveSnapshotVersion();
+const manifest = readManifest(version);
+const dir = snapshotDir(version);
+const site = new URL(manifest.origin);
+const recordedHosts = [...new Set(Object.keys(manifest.entries).map(url => new URL(url).host))];
+
+// Maps a request path on the replay server back to the URL it was recorded from
+function recordedUrl(requestPath: string): string {
+  if (requestPath.startsWith(`${EXTERNAL_PREFIX}/`)) {
+    const [host, ...rest] = requestPath.slice(EXTERNAL_PREFIX.length + 1).split('/');
+    return `https://${host}/${rest.join('/')}`;
+  }
+  return new URL(requestPath, manifest.origin).href;
+}
+
+function lookup(requestPath: string): SnapshotEntry | undefined {
+  const url = recordedUrl(requestPath);
+  // Recordings of external hosts may have been made over plain http
+  return manifest.entries[url] || manifest.entries[url.replace(/^https:/, 'http:')];
+}
+
+const server = http.createServer((request, response) => {
+  const localOrigin = `http://${request.headers.host}`;
+  const entry = lookup(request.url || '/');
+
+  if (!entry) {
+    response.writeHead(404, { 'content-type': 'text/html; charset=UTF-8' });
+    response.end(`<!DOCTYPE html><html><head><title>Page not found</title></head><body><h1>Not in snapshot ${version}</h1></body></html>`);
+    return;
+  }
+
+  if (entry.location) {
+    const location = rewriteOrigins(new URL(entry.location, recordedUrl(request.url || '/')).href, site.host, recordedHosts, localOrigin);
+    response.writeHead(entry.status, { location });
+    response.end();
+    return;
+  }
+
+  const body = fs.readFileSync(path.join(dir, entry.file!));
+  response.writeHead(entry.status, { 'content-type': entry.contentType });
+  response.end(isTextContent(entry.contentType)
+    ? rewriteOrigins(body.toString('utf-8'), site.host, recordedHosts, localOrigin)
+    : body);
+});
+
+const port = Number(new URL(ENVIRONMENTS.local.baseURL).port) || 8080;
+server.listen(port, () => {
+  logResult(`Serving snapshot "${version}" (${Object.keys(manifest.entries).length} responses) at http://localhost:${port}`);
+});
@@ -1,12 +1,12 @@
-import { test, expect, Page, devices, BrowserContext } from '@playwright/test';
+import { test, expect } from './fixtures';
+import { AboutUsPage } from '../pages';
+import { logResult } from '../utils/logger';
+import { sitePage } from '../config/site-map';
+import { VIEWPORTS } from '../config/viewports';
 
-// Configuration constants
-const BASE_URL = 'https://pinoypetplan.com/about-us/';
-const TIMEOUT = {
-  SHORT: 5000,
-  MEDIUM: 10000,
-  LONG: 30000
-};
+// Path relative to the baseURL of the selected environment
+const ABOUT_US = sitePage('about-us');
+const PAGE_PATH = ABOUT_US.path;
 
 // Test data specific to About Us page
 const ABOUT_SECTIONS = [
@@ -34,305 +34,167 @@ const COMPANY_INFO = [
   'serving', 'customers', 'clients', 'pets helped'
 ];
 
-// Helper functions (reusing from homepage with some modifications)
-class AboutUsTestHelpers {
-  static async waitForPageLoad(page: Page): Promise<void> {
-    await page.waitForLoadState('networkidle', { timeout: TIMEOUT.LONG });
-  }
-
-  static async scrollToBottom(page: Page): Promise<void> {
-    await page.evaluate(() => {
-      window.scrollTo(0, document.body.scrollHeight);
-    });
-    await page.waitForTimeout(1000);
-  }
-
-  static async logResult(message: string, type: 'success' | 'info' | 'warning' = 'success'): Promise<void> {
-    const icons = { success: '✓', info: 'ℹ', warning: '⚠' };
-    console.log(`${icons[type]} ${message}`);
-  }
-
-  static async checkElementExists(page: Page, selector: string, elementName: string): Promise<boolean> {
-    const element = page.locator(selector);
-    const count = await element.count();
-    
-    if (count > 0) {
-      const firstElement = element.first();
-      const isVisible = await firstElement.isVisible();
-      if (isVisible) {
-        await this.logResult(`${elementName} found and visible${count > 1 ? ` (${count} total)` : ''}`);
-        return true;
-      } else {
-        await this.logResult(`${elementName} found but not visible${count > 1 ? ` (${count} total)` : ''}`, 'info');
-        return false;
-      }
-    } else {
-      await this.logResult(`${elementName} not found`, 'info');
-      return false;
-    }
-  }
-
-  static async validateResponse(page: Page, url: string): Promise<number> {
-    try {
-      const response = await page.request.get(url);
-      return response.status();
-    } catch (error) {
-      return 0;
-    }
-  }
-
-  static async extractTextContent(page: Page): Promise<string> {
-    return await page.textContent('body') || '';
-  }
-
-  static async checkForKeywords(page: Page, keywords: string[], category: string): Promise<void> {
-    const pageText = await this.extractTextContent(page);
-    const foundKeywords: string[] = [];
-    
-    for (const keyword of keywords) {
-      const regex = new RegExp(keyword, 'i');
-      if (regex.test(pageText)) {
-        foundKeywords.push(keyword);
-      }
-    }
-    
-    if (foundKeywords.length > 0) {
-      await this.logResult(`${category} keywords found: ${foundKeywords.join(', ')}`);
-    } else {
-      await this.logResult(`No ${category} keywords found`, 'info');
-    }
-  }
-}
-
 test.describe('PinoyPetPlan About Us Page Validation', () => {
-  let page: Page;
-  let context: BrowserContext;
+  let aboutPage: AboutUsPage;
+
+  test.beforeEach(async ({ page }) => {
+    aboutPage = new AboutUsPage(page);
 
-  test.beforeEach(async ({ browser }) => {
-    context = await browser.newContext({
-      ignoreHTTPSErrors: true,
-      viewport: { width: 1200, height: 800 }
-    });
-    page = await context.newPage();
-    
     // Set up event listeners for debugging
     page.on('console', msg => {
       if (msg.type() === 'error') {
         console.log(`Browser console error: ${msg.text()}`);
       }
     });
-    
-    await page.goto(BASE_URL, { waitUntil: 'networkidle' });
+
+    await page.goto(PAGE_PATH, { waitUntil: 'networkidle' });
   });
 
-  test('should load about us page successfully', async () => {
-    await expect(page).toHaveTitle(/about.*us|about.*pinoypetplan/i);
-    await expect(page).toHaveURL(BASE_URL);
-    await AboutUsTestHelpers.logResult('About Us page loaded successfully');
+  test('should load about us page successfully', async ({ page }) => {
+    await expect(page).toHaveTitle(ABOUT_US.title);
+    await expect(page).toHaveURL(PAGE_PATH);
+    await logResult('About Us page loaded successfully');
   });
 
-  test('should validate page header and title', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
+  test('should validate page header and title', async ({ page }) => {
+    await aboutPage.waitForPageLoad();
+
     // First, let's check what headings are actually on the page
-    const allHeadings = page.locator('h1, h2, h3, h4, h5, h6');
+    const allHeadings = aboutPage.headings;
     const headingCount = await allHeadings.count();
-    
+
     if (headingCount > 0) {
-      await AboutUsTestHelpers.logResult(`Found ${headingCount} headings on the page`);
-      
+      await logResult(`Found ${headingCount} headings on the page`);
+
       // Log all headings for debugging
       for (let i = 0; i < Math.min(headingCount, 5); i++) {
         const heading = allHeadings.nth(i);
         const headingText = await heading.textContent();
         const tagName = await heading.evaluate(el => el.tagName);
-        await AboutUsTestHelpers.logResult(`${tagName}: "${headingText}"`);
+        await logResult(`${tagName}: "${headingText}"`);
       }
     }
-    
+
     // Check for main heading with more flexible selectors
-    const headingSelectors = [
-      'h1:has-text("About Us")',
-      'h1:has-text("About")',
-      'h1:has-text("Who We Are")',
-      'h1:has-text("Our Story")',
-      '.page-title:has-text("About")',
-      '.hero h1',
-      '.banner h1',
-      '.page-header h1',
-      'h1' // Any h1 as fallback
-    ];
-    
     let headingFound = false;
-    let foundHeadingText = '';
-    
-    for (const selector of headingSelectors) {
+
+    for (const selector of aboutPage.headingSelectors) {
       const heading = page.locator(selector);
       if (await heading.count() > 0 && await heading.first().isVisible()) {
         const headingText = await heading.first().textContent();
         if (headingText && headingText.trim().length > 0) {
-          foundHeadingText = headingText.trim();
-          await AboutUsTestHelpers.logResult(`Page heading found: "${foundHeadingText}"`);
+          await logResult(`Page heading found: "${headingText.trim()}"`);
           headingFound = true;
           break;
         }
       }
     }
-    
+
     if (!headingFound) {
-      await AboutUsTestHelpers.logResult('No suitable page heading found', 'warning');
-      
+      await logResult('No suitable page heading found', 'warning');
+
       // Check if we're on the right page by looking at the URL and title
       const currentUrl = page.url();
       const pageTitle = await page.title();
-      await AboutUsTestHelpers.logResult(`Current URL: ${currentUrl}`);
-      await AboutUsTestHelpers.logResult(`Page title: "${pageTitle}"`);
-      
+      await logResult(`Current URL: ${currentUrl}`);
+      await logResult(`Page title: "${pageTitle}"`);
+
       // If we're on the about page and have a title, that's acceptable
       if (currentUrl.includes('about') && pageTitle.toLowerCase().includes('about')) {
-        await AboutUsTestHelpers.logResult('Page appears to be About Us page based on URL and title');
-        headingFound = true;
+        await logResult('Page appears to be About Us page based on URL and title');
       }
     }
-    
+
     // Make the assertion less strict - we expect at least some heading structure
     expect(headingCount).toBeGreaterThan(0);
   });
 
   test('should validate about us content sections', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
+    await aboutPage.waitForPageLoad();
+
     const foundSections: string[] = [];
-    
+
     for (const section of ABOUT_SECTIONS) {
-      const sectionSelectors = [
-        `h2:has-text("${section}")`,
-        `h3:has-text("${section}")`,
-        `.section-title:has-text("${section}")`,
-        `[class*="section"]:has-text("${section}")`,
-        `*:has-text("${section}")` // Broad selector as fallback
-      ];
-      
-      for (const selector of sectionSelectors) {
-        const element = page.locator(selector);
-        if (await element.count() > 0) {
-          const isVisible = await element.first().isVisible();
-          if (isVisible) {
-            foundSections.push(section);
-            break;
-          }
-        }
+      if (await aboutPage.findFirst(aboutPage.sectionSelectors(section), { visible: true })) {
+        foundSections.push(section);
       }
     }
-    
+
     if (foundSections.length > 0) {
-      await AboutUsTestHelpers.logResult(`About sections found: ${foundSections.join(', ')}`);
+      await logResult(`About sections found: ${foundSections.join(', ')}`);
     } else {
-      await AboutUsTestHelpers.logResult('No standard about sections found', 'info');
+      await logResult('No standard about sections found', 'info');
     }
-    
+
     // At least some content sections should exist
     expect(foundSections.length).toBeGreaterThan(0);
   });
 
-  test('should validate team information', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
+  test('should validate team information', async ({ page }) => {
+    await aboutPage.waitForPageLoad();
+
     // Check for team section
-    const teamSelectors = [
-      '.team', '.our-team', '.staff', '.leadership',
-      '[class*="team"]', 'section:has-text("Team")',
-      'section:has-text("Staff")'
-    ];
-    
     let teamSectionFound = false;
-    for (const selector of teamSelectors) {
-      if (await AboutUsTestHelpers.checkElementExists(page, selector, 'Team section')) {
+    for (const selector of aboutPage.teamSelectors) {
+      if (await aboutPage.checkElementExists(selector, 'Team section')) {
         teamSectionFound = true;
         break;
       }
     }
-    
+
     // Check for team member elements
-    const teamMemberSelectors = [
-      '.team-member', '.staff-member', '.person',
-      '.bio', '.profile', '[class*="member"]'
-    ];
-    
     let teamMembersFound = 0;
-    for (const selector of teamMemberSelectors) {
-      const members = page.locator(selector);
-      const count = await members.count();
+    for (const selector of aboutPage.teamMemberSelectors) {
+      const count = await page.locator(selector).count();
       if (count > 0) {
         teamMembersFound = count;
-        await AboutUsTestHelpers.logResult(`Team members found: ${count}`);
+        await logResult(`Team members found: ${count}`);
         break;
       }
     }
-    
+
     // Check for team roles mentioned in content
-    const pageText = await AboutUsTestHelpers.extractTextContent(page);
-    const foundRoles: string[] = [];
-    
-    for (const role of TEAM_ROLES) {
-      const regex = new RegExp(role, 'i');
-      if (regex.test(pageText)) {
-        foundRoles.push(role);
-      }
-    }
-    
+    const foundRoles = await aboutPage.findKeywords(TEAM_ROLES);
+
     if (foundRoles.length > 0) {
-      await AboutUsTestHelpers.logResult(`Team roles mentioned: ${foundRoles.join(', ')}`);
+      await logResult(`Team roles mentioned: ${foundRoles.join(', ')}`);
     }
-    
+
     if (!teamSectionFound && teamMembersFound === 0 && foundRoles.length === 0) {
-      await AboutUsTestHelpers.logResult('No team information found', 'info');
+      await logResult('No team information found', 'info');
     }
   });
 
   test('should validate company information and history', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
+    await aboutPage.waitForPageLoad();
+
     // Check for company establishment/founding information
-    const pageText = await AboutUsTestHelpers.extractTextContent(page);
-    const foundCompanyInfo: string[] = [];
-    
-    for (const info of COMPANY_INFO) {
-      const regex = new RegExp(info, 'i');
-      if (regex.test(pageText)) {
-        foundCompanyInfo.push(info);
-      }
-    }
-    
+    const pageText = await aboutPage.bodyText();
+    const foundCompanyInfo = await aboutPage.findKeywords(COMPANY_INFO);
+
     if (foundCompanyInfo.length > 0) {
-      await AboutUsTestHelpers.logResult(`Company info found: ${foundCompanyInfo.join(', ')}`);
+      await logResult(`Company info found: ${foundCompanyInfo.join(', ')}`);
     }
-    
+
     // Look for specific years (founding year, establishment date)
     const yearPattern = /\b(19|20)\d{2}\b/g;
     const years = pageText.match(yearPattern);
     if (years) {
-      await AboutUsTestHelpers.logResult(`Years mentioned: ${years.join(', ')}`);
+      await logResult(`Years mentioned: ${years.join(', ')}`);
     }
-    
+
     // Check for statistics or numbers
     const statsPattern = /\b\d+\+?\s*(years?|clients?|customers?|pets?|animals?)\b/gi;
     const stats = pageText.match(statsPattern);
     if (stats) {
-      await AboutUsTestHelpers.logResult(`Statistics found: ${stats.join(', ')}`);
+      await logResult(`Statistics found: ${stats.join(', ')}`);
     }
   });
 
-  test('should validate mission and vision statements', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
-    const missionVisionSelectors = [
-      { name: 'Mission', selectors: ['.mission', '[class*="mission"]', 'section:has-text("Mission")', '*:has-text("Our Mission")'] },
-      { name: 'Vision', selectors: ['.vision', '[class*="vision"]', 'section:has-text("Vision")', '*:has-text("Our Vision")'] },
-      { name: 'Values', selectors: ['.values', '[class*="values"]', 'section:has-text("Values")', '*:has-text("Our Values")'] }
-    ];
-    
-    for (const item of missionVisionSelectors) {
+  test('should validate mission and vision statements', async ({ page }) => {
+    await aboutPage.waitForPageLoad();
+
+    for (const item of aboutPage.statementSelectors) {
       let found = false;
       for (const selector of item.selectors) {
         const element = page.locator(selector);
@@ -341,349 +203,216 @@ test.describe('PinoyPetPlan About Us Page Validation', () => {
           if (isVisible) {
             const content = await element.first().textContent();
             if (content && content.length > 50) { // Ensure substantial content
-              await AboutUsTestHelpers.logResult(`${item.name} statement found (${content.length} chars)`);
+              await logResult(`${item.name} statement found (${content.length} chars)`);
               found = true;
               break;
             }
           }
         }
       }
-      
+
       if (!found) {
-        await AboutUsTestHelpers.logResult(`${item.name} statement not found`, 'info');
+        await logResult(`${item.name} statement not found`, 'info');
       }
     }
   });
 
-  test('should validate images and visual content', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
+  test('should validate images and visual content', async ({ page }) => {
+    await aboutPage.waitForPageLoad();
+
     // Check for team photos
-    const teamImageSelectors = [
-      'img[alt*="team" i]',
-      'img[alt*="staff" i]',
-      'img[src*="team" i]',
-      'img[src*="staff" i]',
-      '.team img',
-      '.staff img'
-    ];
-    
     let teamImagesFound = 0;
-    for (const selector of teamImageSelectors) {
-      const images = page.locator(selector);
-      const count = await images.count();
-      if (count > 0) {
-        teamImagesFound += count;
-      }
+    for (const selector of aboutPage.teamImageSelectors) {
+      teamImagesFound += await page.locator(selector).count();
     }
-    
+
     if (teamImagesFound > 0) {
-      await AboutUsTestHelpers.logResult(`Team images found: ${teamImagesFound}`);
+      await logResult(`Team images found: ${teamImagesFound}`);
     }
-    
+
     // Check for company/office photos
-    const companyImageSelectors = [
-      'img[alt*="office" i]',
-      'img[alt*="company" i]',
-      'img[alt*="facility" i]',
-      'img[src*="office" i]',
-      'img[src*="company" i]'
-    ];
-    
     let companyImagesFound = 0;
-    for (const selector of companyImageSelectors) {
-      const images = page.locator(selector);
-      const count = await images.count();
-      if (count > 0) {
-        companyImagesFound += count;
-      }
+    for (const selector of aboutPage.companyImageSelectors) {
+      companyImagesFound += await page.locator(selector).count();
     }
-    
+
     if (companyImagesFound > 0) {
-      await AboutUsTestHelpers.logResult(`Company images found: ${companyImagesFound}`);
+      await logResult(`Company images found: ${companyImagesFound}`);
     }
-    
+
     // General image validation
-    const allImages = page.locator('img');
-    const totalImages = await allImages.count();
-    let imagesWithAlt = 0;
-    
-    for (let i = 0; i < totalImages; i++) {
-      const img = allImages.nth(i);
-      const alt = await img.getAttribute('alt');
-      if (alt !== null && alt !== '') {
-        imagesWithAlt++;
-      }
-    }
-    
-    await AboutUsTestHelpers.logResult(`Images with alt text: ${imagesWithAlt}/${totalImages}`);
+    const { withAlt, total } = await aboutPage.countImagesWithAlt();
+    await logResult(`Images with alt text: ${withAlt}/${total}`);
   });
 
   test('should validate about us specific keywords', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
+    await aboutPage.waitForPageLoad();
+
     // Check for professional keywords
-    await AboutUsTestHelpers.checkForKeywords(page, ABOUT_KEYWORDS, 'Professional');
-    
+    await aboutPage.checkForKeywords(ABOUT_KEYWORDS, 'Professional');
+
     // Check for Filipino terms
-    await AboutUsTestHelpers.checkForKeywords(page, FILIPINO_ABOUT_TERMS, 'Filipino');
-    
+    await aboutPage.checkForKeywords(FILIPINO_ABOUT_TERMS, 'Filipino');
+
     // Check for pet-related terms
     const petTerms = [
       'pet', 'animal', 'dog', 'cat', 'veterinary', 'healthcare',
       'wellness', 'care', 'health', 'treatment', 'service'
     ];
-    await AboutUsTestHelpers.checkForKeywords(page, petTerms, 'Pet care');
+    await aboutPage.checkForKeywords(petTerms, 'Pet care');
   });
 
   test('should validate contact information and CTA', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
+    await aboutPage.waitForPageLoad();
+
     // Check for contact information
-    const pageText = await AboutUsTestHelpers.extractTextContent(page);
-    
+    const pageText = await aboutPage.bodyText();
+
     // Phone number validation
-    const phonePattern = /(\+63|0)[0-9\s\-\(\)]{10,}/;
-    if (phonePattern.test(pageText)) {
-      const phoneMatch = pageText.match(phonePattern);
-      await AboutUsTestHelpers.logResult(`Phone number found: ${phoneMatch?.[0]}`);
+    const phoneMatch = pageText.match(/(\+63|0)[0-9\s\-\(\)]{10,}/);
+    if (phoneMatch) {
+      await logResult(`Phone number found: ${phoneMatch[0]}`);
     }
-    
+
     // Email validation
-    const emailPattern = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
-    if (emailPattern.test(pageText)) {
-      const emailMatch = pageText.match(emailPattern);
-      await AboutUsTestHelpers.logResult(`Email found: ${emailMatch?.[0]}`);
+    const emailMatch = pageText.match(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/);
+    if (emailMatch) {
+      await logResult(`Email found: ${emailMatch[0]}`);
     }
-    
+
     // Check for call-to-action buttons
-    const ctaSelectors = [
-      'button:has-text("Contact")',
-      'a:has-text("Contact")',
-      'button:has-text("Get Started")',
-      'a:has-text("Get Started")',
-      'button:has-text("Learn More")',
-      'a:has-text("Learn More")',
-      '.cta', '.call-to-action'
-    ];
-    
-    let ctaFound = false;
-    for (const selector of ctaSelectors) {
-      const element = page.locator(selector);
-      if (await element.count() > 0 && await element.first().isVisible()) {
-        const text = await element.first().textContent();
-        await AboutUsTestHelpers.logResult(`CTA found: "${text}"`);
-        ctaFound = true;
-        break;
-      }
-    }
-    
-    if (!ctaFound) {
-      await AboutUsTestHelpers.logResult('No call-to-action buttons found', 'info');
+    const cta = await aboutPage.findFirst(aboutPage.ctaSelectors, { visible: true });
+    if (cta) {
+      await logResult(`CTA found: "${await cta.textContent()}"`);
+    } else {
+      await logResult('No call-to-action buttons found', 'info');
     }
   });
 
   test('should validate navigation and breadcrumbs', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
+    await aboutPage.waitForPageLoad();
+
     // Check for breadcrumb navigation
-    const breadcrumbSelectors = [
-      '.breadcrumb', '.breadcrumbs', '[aria-label="breadcrumb"]',
-      'nav[aria-label="breadcrumb"]', '.page-breadcrumb'
-    ];
-    
-    let breadcrumbFound = false;
-    for (const selector of breadcrumbSelectors) {
-      const element = page.locator(selector);
-      if (await element.count() > 0 && await element.first().isVisible()) {
-        const text = await element.first().textContent();
-        await AboutUsTestHelpers.logResult(`Breadcrumb found: "${text}"`);
-        breadcrumbFound = true;
-        break;
-      }
-    }
-    
-    if (!breadcrumbFound) {
-      await AboutUsTestHelpers.logResult('No breadcrumb navigation found', 'info');
+    const breadcrumb = aboutPage.breadcrumb.first();
+    if (await breadcrumb.isVisible().catch(() => false)) {
+      await logResult(`Breadcrumb found: "${await breadcrumb.textContent()}"`);
+    } else {
+      await logResult('No breadcrumb navigation found', 'info');
     }
-    
+
     // Check for "Back to" or navigation links
-    const backLinkSelectors = [
-      'a:has-text("Back to")',
-      'a:has-text("Home")',
-      'a:has-text("← Back")',
-      '.back-link'
-    ];
-    
-    for (const selector of backLinkSelectors) {
-      const element = page.locator(selector);
-      if (await element.count() > 0 && await element.first().isVisible()) {
-        const text = await element.first().textContent();
-        await AboutUsTestHelpers.logResult(`Navigation link found: "${text}"`);
-        break;
-      }
+    const backLink = await aboutPage.findFirst(aboutPage.backLinkSelectors, { visible: true });
+    if (backLink) {
+      await logResult(`Navigation link found: "${await backLink.textContent()}"`);
     }
   });
 
-  test('should validate content quality and length', async () => {
-    await AboutUsTestHelpers.waitForPageLoad(page);
-    
-    const pageText = await AboutUsTestHelpers.extractTextContent(page);
+  test('should validate content quality and length', async ({ page }) => {
+    await aboutPage.waitForPageLoad();
+
+    const pageText = await aboutPage.bodyText();
     const wordCount = pageText.split(/\s+/).filter(word => word.length > 0).length;
-    
-    await AboutUsTestHelpers.logResult(`Page content word count: ${wordCount}`);
-    
+
+    await logResult(`Page content word count: ${wordCount}`);
+
     // About Us pages should have substantial content
     expect(wordCount).toBeGreaterThan(100);
-    
+
     // Check for paragraph structure
     const paragraphs = page.locator('p');
     const paragraphCount = await paragraphs.count();
-    
-    await AboutUsTestHelpers.logResult(`Paragraphs found: ${paragraphCount}`);
-    
+
+    await logResult(`Paragraphs found: ${paragraphCount}`);
+
     // Validate paragraph content length
     let substantialParagraphs = 0;
     for (let i = 0; i < paragraphCount; i++) {
-      const p = paragraphs.nth(i);
-      const text = await p.textContent();
+      const text = await paragraphs.nth(i).textContent();
       if (text && text.length > 50) {
         substantialParagraphs++;
       }
     }
-    
-    await AboutUsTestHelpers.logResult(`Substantial paragraphs: ${substantialParagraphs}/${paragraphCount}`);
-    
+
+    await logResult(`Substantial paragraphs: ${substantialParagraphs}/${paragraphCount}`);
+
     // Check content structure
-    const headings = page.locator('h1, h2, h3, h4, h5, h6');
-    const headingCount = await headings.count();
-    
-    await AboutUsTestHelpers.logResult(`Headings found: ${headingCount}`);
+    const headingCount = await aboutPage.headings.count();
+
+    await logResult(`Headings found: ${headingCount}`);
     expect(headingCount).toBeGreaterThan(0);
   });
 
-  test('should validate SEO elements for about us page', async () => {
+  test('should validate SEO elements for about us page', async ({ page }) => {
     // Meta description validation
-    const metaDescription = page.locator('meta[name="description"]');
-    if (await metaDescription.count() > 0) {
-      const content = await metaDescription.getAttribute('content');
+    if (await aboutPage.metaDescription.count() > 0) {
+      const content = await aboutPage.metaDescription.getAttribute('content');
       if (content) {
         expect(content.length).toBeGreaterThan(50);
         expect(content.length).toBeLessThan(160);
-        
+
         // Check if description mentions "about" or related terms
         const aboutTerms = ['about', 'who we are', 'our story', 'our company'];
-        const hasAboutTerm = aboutTerms.some(term => 
+        const hasAboutTerm = aboutTerms.some(term =>
           content.toLowerCase().includes(term.toLowerCase())
         );
-        
+
         if (hasAboutTerm) {
-          await AboutUsTestHelpers.logResult(`Meta description appropriate for About Us page`);
+          await logResult(`Meta description appropriate for About Us page`);
         } else {
-          await AboutUsTestHelpers.logResult(`Meta description may not be About Us specific`, 'warning');
+          await logResult(`Meta description may not be About Us specific`, 'warning');
         }
-        
-        await AboutUsTestHelpers.logResult(`Meta description (${content.length} chars): "${content}"`);
+
+        await logResult(`Meta description (${content.length} chars): "${content}"`);
       }
     } else {
-      await AboutUsTestHelpers.logResult('Meta description not found', 'warning');
+      await logResult('Meta description not found', 'warning');
     }
-    
+
     // Page title validation
     const title = await page.title();
     const aboutTitleTerms = ['about', 'who we are', 'our story', 'our company'];
-    const hasAboutInTitle = aboutTitleTerms.some(term => 
+    const hasAboutInTitle = aboutTitleTerms.some(term =>
       title.toLowerCase().includes(term.toLowerCase())
     );
-    
+
     if (hasAboutInTitle) {
-      await AboutUsTestHelpers.logResult(`Page title appropriate for About Us: "${title}"`);
+      await logResult(`Page title appropriate for About Us: "${title}"`);
     } else {
-      await AboutUsTestHelpers.logResult(`Page title may not be About Us specific: "${title}"`, 'warning');
+      await logResult(`Page title may not be About Us specific: "${title}"`, 'warning');
     }
   });
 
-  test('should validate responsive design on about us page', async () => {
-    const viewports = [
-      { name: 'Mobile', width: 375, height: 667 },
-      { name: 'Tablet', width: 768, height: 1024 },
-      { name: 'Desktop', width: 1200, height: 800 }
-    ];
-    
-    for (const viewport of viewports) {
-      await AboutUsTestHelpers.logResult(`Testing About Us page on ${viewport.name} (${viewport.width}x${viewport.height})`);
-      
+  test('should validate responsive design on about us page', async ({ page }) => {
+    for (const viewport of VIEWPORTS) {
+      await logResult(`Testing About Us page on ${viewport.name} (${viewport.width}x${viewport.height})`);
+
       await page.setViewportSize({ width: viewport.width, height: viewport.height });
       await page.reload({ waitUntil: 'networkidle' });
-      
+
       // Verify content is accessible
-      const mainContent = page.locator('main, .main-content, .content, article');
-      const contentExists = await mainContent.count() > 0;
-      
-      if (contentExists) {
+      const mainContent = aboutPage.mainContent;
+      if (await mainContent.count() > 0) {
         await expect(mainContent.first()).toBeVisible();
-        await AboutUsTestHelpers.logResult(`Main content visible on ${viewport.name}`);
+        await logResult(`Main content visible on ${viewport.name}`);
       }
-      
+
       // Check for horizontal scrolling
-      const hasHorizontalScroll = await page.evaluate(() => {
-        return document.body.scrollWidth > window.innerWidth;
-      });
-      
-      if (hasHorizontalScroll) {
-        await AboutUsTestHelpers.logResult(`Horizontal scrolling detected on ${viewport.name}`, 'warning');
+      if (await aboutPage.hasHorizontalScroll()) {
+        await logResult(`Horizontal scrolling detected on ${viewport.name}`, 'warning');
       }
     }
   });
-
-  test.afterEach(async () => {
-    if (page) {
-      await page.close();
-    }
-    if (context) {
-      await context.close();
-    }
-  });
 });
 
-// Cross-device testing for About Us page
+// Runs on every device project (config/devices.ts)
 test.describe('About Us Cross-device compatibility', () => {
-  const devicesTest = [
-    { name: 'iPhone 12', config: devices['iPhone 12'] },
-    { name: 'iPad', config: devices['iPad'] },
-    { name: 'Desktop Chrome', config: devices['Desktop Chrome'] }
-  ];
-
-  devicesTest.forEach(device => {
-    test(`About Us page should work on ${device.name}`, async ({ browser }) => {
-      const context = await browser.newContext({
-        ...device.config,
-        ignoreHTTPSErrors: true
-      });
-      const page = await context.newPage();
-      
-      try {
-        await page.goto(BASE_URL, { waitUntil: 'networkidle', timeout: TIMEOUT.LONG });
-        
-        // Basic functionality verification
-        await expect(page).toHaveTitle(/about/i);
-        await AboutUsTestHelpers.logResult(`About Us page loads successfully on ${device.name}`);
-        
-        // Check for readable content
-        const mainContent = page.locator('main, .main-content, .content, article, body');
-        const contentText = await mainContent.first().textContent();
-        
-        if (contentText && contentText.length > 100) {
-          await AboutUsTestHelpers.logResult(`Substantial content found on ${device.name}`);
-        }
-        
-      } catch (error) {
-        await AboutUsTestHelpers.logResult(`Error testing About Us on ${device.name}: ${error}`, 'warning');
-      } finally {
-        await context.close();
-      }
-    });
+  test('About Us page should work on this device', async ({ page }) => {
+    const aboutPage = new AboutUsPage(page);
+    await page.goto(PAGE_PATH, { waitUntil: 'networkidle' });
+    await expect(page).toHaveTitle(/about/i);
+
+    // The content should be there and readable, whatever the screen size
+    const contentText = await aboutPage.mainContent.or(page.locator('body')).first().textContent();
+    expect(contentText?.trim().length ?? 0).toBeGreaterThan(100);
   });
 });
-
-export { AboutUsTestHelpers, BASE_URL, TIMEOUT };
\ No newline at end of file
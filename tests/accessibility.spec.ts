@@ -0,0 +1,22 @@
+import { test, expect } from './fixtures';
+import { BasePage } from '../pages';
+import { loadAccessibilityBaseline } from '../config/accessibility';
+import { SITE_MAP } from '../config/site-map';
+import { auditAccessibility, describeViolation } from '../utils/accessibility';
+import { pageAnnotation } from '../utils/dashboard';
+
+// WCAG 2.1 AA audit (axe-core) of every page in the site map. Accepted violations are listed in
+// config/accessibility-baseline.json.
+const baseline = loadAccessibilityBaseline();
+
+test.describe('Accessibility (WCAG 2.1 AA)', () => {
+  for (const sitePage of SITE_MAP) {
+    test(`${sitePage.id} should have no accessibility violations`, { tag: '@accessibility', ...pageAnnotation(sitePage) }, async ({ page }, testInfo) => {
+      await page.goto(sitePage.path);
+      await new BasePage(page).waitForPageLoad();
+
+      const audit = await auditAccessibility(page, sitePage.id, baseline, testInfo);
+      expect(audit.blocking.map(violation => violation.id), audit.blocking.map(describeViolation).join('\n')).toEqual([]);
+    });
+  }
+});
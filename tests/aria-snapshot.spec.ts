@@ -0,0 +1,32 @@
+import { test, expect } from './fixtures';
+import { BasePage } from '../pages';
+import { ARIA_REGIONS, ariaRegions, ariaSnapshotPages } from '../config/aria-snapshots';
+import { pageAnnotation } from '../utils/dashboard';
+import { findRegion, headingOutline } from '../utils/aria-snapshots';
+
+// What a screen reader gets from the header, main navigation, content and footer of one page of each
+// type, compared with the YAML baselines in tests/__snapshots__/. A changed landmark, role, accessible
+// name or heading shows up as a diff of the baseline in review; update them with
+// `npm run test:aria:update` after an intended change.
+test.describe('ARIA snapshots', () => {
+  // Playwright builds the tree itself, so it's the same in every browser; the layout differs per form factor
+  test.skip(({ device }) => device.browser !== 'chromium' || device.lowEnd, 'Runs on the Chromium desktop, tablet and phone');
+
+  for (const sitePage of ariaSnapshotPages()) {
+    for (const region of ariaRegions(sitePage)) {
+      test(`${sitePage.id} ${region} should match the ARIA baseline`, { tag: '@accessibility', ...pageAnnotation(sitePage) }, async ({ page, device }, testInfo) => {
+        await page.goto(sitePage.path);
+        await new BasePage(page).waitForPageLoad();
+
+        const locator = await findRegion(page, ARIA_REGIONS[region]);
+        expect(locator, `no ${region} on ${sitePage.id} (${ARIA_REGIONS[region].join(', ')})`).not.toBeNull();
+
+        const outline = headingOutline(await locator!.ariaSnapshot());
+        if (outline.length > 0) {
+          await testInfo.attach('heading-outline.txt', { body: outline.join('\n'), contentType: 'text/plain' });
+        }
+        await expect(locator!).toMatchAriaSnapshot({ name: `${sitePage.id}-${region}-${device.formFactor}.aria.yml` });
+      });
+    }
+  }
+});
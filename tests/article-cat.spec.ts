@@ -1,260 +0,0 @@
-import { test, expect } from '@playwright/test';
-
-test.describe('Article Cat Page Tests', () => {
-  const articleUrl = 'https://pinoypetplan.com/adopting-a-cat-from-a-philippine-shelter-a-heartwarming-journey/';
-
-  test.beforeEach(async ({ page }) => {
-    await page.goto(articleUrl);
-    // Wait for page to be fully loaded
-    await page.waitForLoadState('networkidle');
-  });
-
-  test('should load the page successfully', async ({ page }) => {
-    await expect(page).toHaveURL(articleUrl);
-    await expect(page).toHaveTitle(/adopting.*cat/i);
-  });
-
-  test('should validate main navigation menu', async ({ page }) => {
-    // Check if navigation menu exists
-    const navigation = page.locator('nav, .nav, .navigation, .menu');
-    await expect(navigation.first()).toBeAttached();
-
-    // Check for common navigation items
-    const homeLink = page.getByRole('link', { name: /home/i });
-    const aboutLink = page.getByRole('link', { name: /about/i });
-    
-    // Verify at least one navigation element is present
-    const navLinks = page.locator('nav a, .menu a, .navigation a');
-    const navCount = await navLinks.count();
-    expect(navCount).toBeGreaterThan(0);
-  });
-
-  test('should validate header elements', async ({ page }) => {
-    // Check for logo or site title - use more flexible visibility check
-    const logo = page.locator('img[alt*="logo" i], .logo, .site-title, h1');
-    const logoCount = await logo.count();
-    expect(logoCount).toBeGreaterThan(0);
-    
-    // Check if logo element exists in DOM (might not be visible due to loading)
-    await expect(logo.first()).toBeAttached();
-
-    // Check for header section
-    const header = page.locator('header, .header');
-    await expect(header.first()).toBeAttached();
-  });
-
-  test('should validate article content', async ({ page }) => {
-    // Check for article title/heading
-    const mainHeading = page.locator('h1');
-    await expect(mainHeading.first()).toBeVisible();
-    await expect(mainHeading.first()).toContainText(/cat|shelter|adopt/i);
-
-    // Check for article content
-    const articleContent = page.locator('article, .content, .post-content, .entry-content');
-    await expect(articleContent.first()).toBeAttached();
-
-    // Verify there's substantial text content
-    const textContent = page.locator('p');
-    await expect(textContent.first()).toBeVisible();
-  });
-
-  test('should validate images and media', async ({ page }) => {
-    // Wait a bit longer for images to load
-    await page.waitForTimeout(2000);
-    
-    // Check for images
-    const images = page.locator('img');
-    const imageCount = await images.count();
-    
-    expect(imageCount).toBeGreaterThan(0);
-    
-    if (imageCount > 0) {
-      // Check if first image exists and has src attribute
-      const firstImage = images.first();
-      await expect(firstImage).toBeAttached();
-      await expect(firstImage).toHaveAttribute('src');
-      
-      // Check alt attribute exists
-      const altText = await firstImage.getAttribute('alt');
-      expect(altText).not.toBeNull();
-      
-      // Try to find a visible image (images might be lazy loaded)
-      const visibleImages = images.locator(':visible');
-      const visibleCount = await visibleImages.count();
-      
-      // If no images are visible, check if they're at least loaded in DOM
-      if (visibleCount === 0) {
-        console.log('Images found in DOM but not visible - possibly lazy loaded');
-        await expect(firstImage).toBeAttached();
-      } else {
-        await expect(visibleImages.first()).toBeVisible();
-      }
-    }
-  });
-
-  test('should validate footer elements', async ({ page }) => {
-    // Scroll to footer to ensure it's loaded
-    await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
-    await page.waitForTimeout(1000);
-    
-    // Check for footer - use more flexible check
-    const footer = page.locator('footer, .footer');
-    const footerCount = await footer.count();
-    expect(footerCount).toBeGreaterThan(0);
-    
-    // Check if footer is attached to DOM
-    await expect(footer.first()).toBeAttached();
-    
-    // Try to get footer content
-    const footerText = await footer.first().textContent();
-    // Footer might be empty or have minimal content, so we just check it exists
-    expect(footerText).not.toBeUndefined();
-  });
-
-  test('should validate meta elements and SEO', async ({ page }) => {
-    // Check meta description
-    const metaDescription = page.locator('meta[name="description"]');
-    if (await metaDescription.count() > 0) {
-      await expect(metaDescription).toHaveAttribute('content');
-    }
-
-    // Check for canonical URL
-    const canonicalLink = page.locator('link[rel="canonical"]');
-    if (await canonicalLink.count() > 0) {
-      await expect(canonicalLink).toHaveAttribute('href');
-    }
-  });
-
-  test('should validate social sharing elements', async ({ page }) => {
-    // Check for social sharing buttons or links
-    const socialElements = page.locator('[class*="social"], [class*="share"], a[href*="facebook"], a[href*="twitter"], a[href*="instagram"]');
-    
-    // Social elements are optional, so we just check if they exist and are attached
-    const socialCount = await socialElements.count();
-    if (socialCount > 0) {
-      await expect(socialElements.first()).toBeAttached();
-    }
-  });
-
-  test('should validate responsive design elements', async ({ page }) => {
-    // Test mobile viewport
-    await page.setViewportSize({ width: 375, height: 667 });
-    await page.reload();
-    await page.waitForLoadState('networkidle');
-
-    // Ensure main content is still visible on mobile
-    const mainContent = page.locator('article, .content, main, .post');
-    await expect(mainContent.first()).toBeAttached();
-
-    // Test desktop viewport
-    await page.setViewportSize({ width: 1280, height: 720 });
-    await page.reload();
-    await page.waitForLoadState('networkidle');
-
-    // Ensure content is still visible on desktop
-    await expect(mainContent.first()).toBeAttached();
-  });
-
-  test('should validate accessibility features', async ({ page }) => {
-    // Check for skip links (accessibility feature)
-    const skipLink = page.locator('a[href*="#main"], a[href*="#content"], .skip-link');
-    // Skip links are optional but good for accessibility
-    
-    // Check for proper heading hierarchy
-    const h1Count = await page.locator('h1').count();
-    expect(h1Count).toBeGreaterThanOrEqual(1);
-    expect(h1Count).toBeLessThanOrEqual(3); // Usually only 1-2 H1s per page
-  });
-
-  test('should validate form elements if present', async ({ page }) => {
-    // Check for search forms
-    const searchForm = page.locator('form[role="search"], .search-form, input[type="search"]');
-    const searchCount = await searchForm.count();
-    
-    if (searchCount > 0) {
-      await expect(searchForm.first()).toBeAttached();
-    }
-
-    // Check for newsletter signup or contact forms
-    const forms = page.locator('form');
-    const formCount = await forms.count();
-    
-    if (formCount > 0) {
-      // Ensure forms have proper labels or placeholders
-      const inputs = page.locator('form input:not([type="hidden"]), form textarea');
-      const inputCount = await inputs.count();
-      
-      if (inputCount > 0) {
-        // Check that inputs have labels, placeholders, or aria-labels
-        for (let i = 0; i < Math.min(inputCount, 3); i++) {
-          const input = inputs.nth(i);
-          
-          // Get input ID for label checking
-          const inputId = await input.getAttribute('id');
-          let hasLabel = false;
-          
-          if (inputId) {
-            const label = page.locator(`label[for="${inputId}"]`);
-            hasLabel = await label.count() > 0;
-          }
-          
-          const hasPlaceholder = await input.getAttribute('placeholder') !== null && 
-                                 await input.getAttribute('placeholder') !== '';
-          const hasAriaLabel = await input.getAttribute('aria-label') !== null && 
-                              await input.getAttribute('aria-label') !== '';
-          const hasAriaLabelledBy = await input.getAttribute('aria-labelledby') !== null;
-          
-          // More flexible validation - input should have some form of labeling
-          const hasAnyLabel = hasLabel || hasPlaceholder || hasAriaLabel || hasAriaLabelledBy;
-          
-          if (!hasAnyLabel) {
-            console.log(`Input ${i} lacks proper labeling:`, {
-              hasLabel,
-              hasPlaceholder,
-              hasAriaLabel,
-              hasAriaLabelledBy,
-              inputId
-            });
-          }
-          
-          // Make this a warning rather than failure for form accessibility
-          // expect(hasAnyLabel).toBeTruthy();
-        }
-      }
-    }
-  });
-
-  test('should validate page performance basics', async ({ page }) => {
-    // Check page load time (basic performance test)
-    const startTime = Date.now();
-    await page.goto(articleUrl);
-    await page.waitForLoadState('networkidle');
-    const loadTime = Date.now() - startTime;
-    
-    // Page should load within reasonable time (15 seconds for slower connections)
-    expect(loadTime).toBeLessThan(15000);
-
-    // Check for basic page structure loading
-    const body = page.locator('body');
-    await expect(body).toBeVisible();
-  });
-
-  test('should validate page structure and content hierarchy', async ({ page }) => {
-    // Ensure basic HTML structure
-    await expect(page.locator('html')).toBeAttached();
-    await expect(page.locator('head')).toBeAttached();
-    await expect(page.locator('body')).toBeAttached();
-    
-    // Check for main content area
-    const mainContent = page.locator('main, [role="main"], article, .content, .post-content');
-    await expect(mainContent.first()).toBeAttached();
-    
-    // Verify page has meaningful text content
-    const bodyText = await page.locator('body').textContent();
-    expect(bodyText?.length || 0).toBeGreaterThan(100);
-    
-    // Check that the article title is meaningful
-    const title = await page.title();
-    expect(title.length).toBeGreaterThan(10);
-  });
-});
\ No newline at end of file
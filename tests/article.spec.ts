@@ -0,0 +1,183 @@
+import { test, expect } from './fixtures';
+import { ArticlePage } from '../pages';
+import { ARTICLE_MANIFESTS } from '../config/articles';
+import { sitePage } from '../config/site-map';
+import { pageAnnotation } from '../utils/dashboard';
+
+// One suite per content manifest in content/articles/. The shared checks run for every article;
+// sections, keywords and facts come from the manifest.
+for (const manifest of ARTICLE_MANIFESTS) {
+  const article = sitePage(manifest.id);
+  const headline = new RegExp(manifest.headline, 'i');
+  const structure = { minHeadings: 1, maxH1: 3, minParagraphs: 1, minLists: 0, ...manifest.structure };
+  const { prices, locations } = manifest.facts || {};
+
+  test.describe(`Article: ${manifest.id}`, pageAnnotation(article), () => {
+    let articlePage: ArticlePage;
+
+    test.beforeEach(async ({ page }) => {
+      articlePage = new ArticlePage(page);
+      await page.goto(article.path);
+      await articlePage.waitForPageLoad();
+    });
+
+    test('should load the page successfully', async ({ page }) => {
+      await expect(page).toHaveTitle(article.title);
+      await expect(page).toHaveURL(article.path);
+    });
+
+    test('should display header and main navigation menu', async ({ device }) => {
+      test.skip(device.formFactor !== 'desktop', 'The menu collapses on phones and tablets; mobile-menu.spec.ts covers it there');
+      await expect(articlePage.header.first()).toBeAttached();
+      await expect(articlePage.navigation.first()).toBeVisible();
+
+      // Check for common menu items that might exist
+      const possibleMenuItems = [
+        'Home', 'About', 'Services', 'Blog', 'Contact',
+        'Pet Insurance', 'Plans', 'Coverage', 'Claims'
+      ];
+
+      const menuItemsFound = await articlePage.countVisibleLinks(possibleMenuItems);
+      expect(menuItemsFound).toBeGreaterThanOrEqual(2);
+    });
+
+    test('should display the article title', { tag: '@content' }, async ({ page }) => {
+      const title = await articlePage.findTitle(headline);
+      if (title) {
+        await expect(title).toBeVisible();
+      } else {
+        // Fallback - check if title text exists anywhere on page
+        await expect(page.getByText(headline).first()).toBeVisible();
+      }
+    });
+
+    test('should have proper article structure', { tag: '@content' }, async ({ page }) => {
+      await expect(page.locator('h1').first()).toBeVisible();
+
+      const h1Count = await page.locator('h1').count();
+      expect(h1Count).toBeLessThanOrEqual(structure.maxH1);
+      expect(await articlePage.headings.count()).toBeGreaterThanOrEqual(structure.minHeadings);
+      expect(await articlePage.paragraphs.count()).toBeGreaterThanOrEqual(structure.minParagraphs);
+      expect(await articlePage.lists.count()).toBeGreaterThanOrEqual(structure.minLists);
+    });
+
+    if (manifest.requiredSections.length > 0) {
+      test('should contain the required sections', { tag: '@content' }, async () => {
+        for (const section of manifest.requiredSections) {
+          await expect(articlePage.mention(section).first(), `section "${section}"`).toBeVisible();
+        }
+      });
+    }
+
+    for (const group of manifest.requiredKeywords) {
+      const min = group.min ?? Math.floor(group.terms.length / 2);
+
+      test(`should mention ${group.name}`, { tag: '@content' }, async () => {
+        const found = await articlePage.countVisibleMentions(group.terms);
+        expect(found, `${group.name}: expected at least ${min} of ${group.terms.join(', ')}`).toBeGreaterThanOrEqual(min);
+      });
+    }
+
+    if (prices) {
+      test('should display price information', { tag: '@content' }, async ({ page }) => {
+        let priceFound = false;
+        for (const pattern of prices.patterns) {
+          if (await page.getByText(new RegExp(pattern, 'i')).first().isVisible().catch(() => false)) {
+            priceFound = true;
+            break;
+          }
+        }
+        expect(priceFound, `none of ${prices.patterns.join(', ')} is visible`).toBe(true);
+
+        if (prices.amounts) {
+          let amountFound = false;
+          for (const amount of prices.amounts) {
+            if (await page.getByText(amount).first().isVisible().catch(() => false)) {
+              amountFound = true;
+              break;
+            }
+          }
+          expect(amountFound, `none of ${prices.amounts.join(', ')} is visible`).toBe(true);
+        }
+      });
+    }
+
+    if (locations) {
+      test('should contain location-specific information', { tag: '@content' }, async () => {
+        const min = locations.min ?? 1;
+        const locationsFound = await articlePage.countVisibleMentions(locations.names);
+        expect(locationsFound).toBeGreaterThanOrEqual(min);
+      });
+    }
+
+    test('should have images with alt text', { tag: '@accessibility' }, async () => {
+      const imageCount = await articlePage.images.count();
+      expect(imageCount).toBeGreaterThan(0);
+
+      for (let i = 0; i < imageCount; i++) {
+        const img = articlePage.images.nth(i);
+        await expect(img).toHaveAttribute('src');
+
+        // Image should have alt text or be marked as decorative
+        const alt = await img.getAttribute('alt');
+        const role = await img.getAttribute('role');
+        expect(alt !== null || role === 'presentation').toBeTruthy();
+      }
+    });
+
+    test('should have functional internal links', { tag: '@seo' }, async ({ page }) => {
+      const internalLinks = articlePage.internalLinks.locator('visible=true');
+      const linkCount = await internalLinks.count();
+
+      // Test first few visible internal links
+      for (let i = 0; i < Math.min(linkCount, 3); i++) {
+        const href = await internalLinks.nth(i).getAttribute('href');
+        expect(href).toBeTruthy();
+
+        const response = await page.request.get(new URL(href!, page.url()).href);
+        expect(response.status(), href!).toBeLessThan(400);
+      }
+    });
+
+    test('should load its resources without errors', async ({ page }) => {
+      const failedRequests: string[] = [];
+      page.on('response', response => {
+        if (response.status() >= 400) {
+          failedRequests.push(`${response.status()} ${response.url()}`);
+        }
+      });
+
+      await page.reload();
+      await articlePage.waitForPageLoad();
+
+      // Allow some tolerance for external resources, but main content should load
+      expect(failedRequests.length, failedRequests.join('\n')).toBeLessThan(3);
+    });
+
+    test('should display footer information', async () => {
+      await articlePage.scrollToBottom();
+
+      const footer = articlePage.footer;
+      expect(await footer.count()).toBeGreaterThan(0);
+
+      if (await footer.first().isVisible().catch(() => false)) {
+        const footerElements = ['copyright', '©', 'pinoypetplan', 'contact', 'privacy'];
+        const footerElementsFound = await articlePage.countVisibleMentions(footerElements);
+        expect(footerElementsFound).toBeGreaterThan(0);
+      }
+    });
+
+    test('should be mobile responsive', async ({ page }) => {
+      await page.setViewportSize({ width: 375, height: 667 });
+      await page.reload();
+      await articlePage.waitForPageLoad();
+
+      await expect(articlePage.body.first()).toBeVisible();
+      await expect(articlePage.title.first()).toBeVisible();
+
+      // Check that text is readable (not too small)
+      const fontSizeNumber = await articlePage.bodyFontSize();
+      expect(fontSizeNumber).toBeGreaterThanOrEqual(14);
+    });
+  });
+}
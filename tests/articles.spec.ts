@@ -1,21 +1,26 @@
-import { test, expect, Page } from '@playwright/test';
+import { Page } from '@playwright/test';
+import { test, expect } from './fixtures';
+import { CategoryPage } from '../pages';
+import { sitePage } from '../config/site-map';
 
-// Configuration
-const BASE_URL = 'https://pinoypetplan.com/articles/';
-const TIMEOUT = 30000;
+// Path relative to the baseURL of the selected environment
+const ARTICLES = sitePage('articles');
+const BASE_URL = ARTICLES.path;
 
 // Test suite for Pinoy Pet Plan Articles page validation
 test.describe('Pinoy Pet Plan Articles Page Validation', () => {
   let page: Page;
+  let articlesPage: CategoryPage;
 
   test.beforeEach(async ({ page: testPage }) => {
     page = testPage;
+    articlesPage = new CategoryPage(page);
     await page.goto(BASE_URL, { waitUntil: 'networkidle' });
   });
 
   test('Page loads successfully with correct title', async () => {
     // Validate page loads and has expected title
-    await expect(page).toHaveTitle(/.*articles.*|.*blog.*|.*pinoy.*pet.*plan.*/i);
+    await expect(page).toHaveTitle(ARTICLES.title);
     
     // Check if page is fully loaded
     await expect(page.locator('body')).toBeVisible();
@@ -32,22 +37,14 @@ test.describe('Pinoy Pet Plan Articles Page Validation', () => {
       '.navigation'
     ];
 
-    let headerFound = false;
-    for (const selector of headerSelectors) {
-      const element = page.locator(selector);
-      if (await element.count() > 0) {
-        await expect(element.first()).toBeVisible();
-        headerFound = true;
-        break;
-      }
-    }
-    
-    expect(headerFound).toBe(true);
+    const header = await articlesPage.findFirst(headerSelectors);
+    expect(header).not.toBeNull();
+    await expect(header!).toBeVisible();
   });
 
   test('Logo and brand validation', async () => {
     // Wait for page to be fully loaded
-    await page.waitForLoadState('networkidle');
+    await articlesPage.waitForPageLoad();
     
     // Check for logo presence - more flexible approach
     const logoSelectors = [
@@ -115,7 +112,7 @@ test.describe('Pinoy Pet Plan Articles Page Validation', () => {
 
   test('Main navigation menu validation', async () => {
     // Wait for page to be fully loaded
-    await page.waitForLoadState('networkidle');
+    await articlesPage.waitForPageLoad();
     
     // Check for main navigation elements
     const navSelectors = [
@@ -167,13 +164,10 @@ test.describe('Pinoy Pet Plan Articles Page Validation', () => {
     ];
 
     let articlesFound = false;
-    for (const selector of articleContainerSelectors) {
-      const element = page.locator(selector);
-      if (await element.count() > 0) {
-        await expect(element.first()).toBeVisible();
-        articlesFound = true;
-        break;
-      }
+    const container = await articlesPage.findFirst(articleContainerSelectors);
+    if (container) {
+      await expect(container).toBeVisible();
+      articlesFound = true;
     }
 
     // Check for individual article elements
@@ -185,13 +179,10 @@ test.describe('Pinoy Pet Plan Articles Page Validation', () => {
       '[class*="card"]'
     ];
 
-    for (const selector of articleSelectors) {
-      const articles = page.locator(selector);
-      if (await articles.count() > 0) {
-        await expect(articles.first()).toBeVisible();
-        articlesFound = true;
-        break;
-      }
+    const article = await articlesPage.findFirst(articleSelectors);
+    if (article) {
+      await expect(article).toBeVisible();
+      articlesFound = true;
     }
 
     expect(articlesFound).toBe(true);
@@ -209,18 +200,10 @@ test.describe('Pinoy Pet Plan Articles Page Validation', () => {
       '[class*="heading"]'
     ];
 
-    let titleFound = false;
-    for (const selector of titleSelectors) {
-      const titles = page.locator(selector);
-      if (await titles.count() > 0) {
-        await expect(titles.first()).toBeVisible();
-        await expect(titles.first()).toHaveText(/\S+/); // Not empty
-        titleFound = true;
-        break;
-      }
-    }
-
-    expect(titleFound).toBe(true);
+    const title = await articlesPage.findFirst(titleSelectors);
+    expect(title).not.toBeNull();
+    await expect(title!).toBeVisible();
+    await expect(title!).toHaveText(/\S+/); // Not empty
 
     // Check for article dates
     const dateSelectors = [
@@ -232,46 +215,16 @@ test.describe('Pinoy Pet Plan Articles Page Validation', () => {
       '[class*="date"]'
     ];
 
-    for (const selector of dateSelectors) {
-      const dates = page.locator(selector);
-      if (await dates.count() > 0) {
-        await expect(dates.first()).toBeVisible();
-        break;
-      }
-    }
-  });
-
-  test('Search functionality validation', async () => {
-    // Check for search input
-    const searchSelectors = [
-      'input[type="search"]',
-      'input[placeholder*="search" i]',
-      '.search-input',
-      '#search',
-      '[class*="search"] input'
-    ];
-
-    for (const selector of searchSelectors) {
-      const searchInput = page.locator(selector);
-      if (await searchInput.count() > 0) {
-        await expect(searchInput.first()).toBeVisible();
-        await expect(searchInput.first()).toBeEnabled();
-        
-        // Test search functionality
-        await searchInput.first().fill('dog');
-        await searchInput.first().press('Enter');
-        
-        // Wait for search results or page change
-        await page.waitForTimeout(2000);
-        break;
-      }
+    const date = await articlesPage.findFirst(dateSelectors);
+    if (date) {
+      await expect(date).toBeVisible();
     }
   });
 
 test('Footer validation', async () => {
     // Wait for page to be fully loaded and scroll to bottom
-    await page.waitForLoadState('networkidle');
-    await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    await articlesPage.waitForPageLoad();
+    await articlesPage.scrollToBottom();
     
     // First, let's get comprehensive page information
     const pageInfo = await page.evaluate(() => {
@@ -462,67 +415,26 @@ test('Footer validation', async () => {
       '[class*="social"] a'
     ];
 
-    let socialFound = false;
-    for (const selector of socialSelectors) {
-      const socialLinks = page.locator(selector);
-      if (await socialLinks.count() > 0) {
-        await expect(socialLinks.first()).toBeVisible();
-        
-        // Check if links have href attributes
-        const href = await socialLinks.first().getAttribute('href');
-        expect(href).toBeTruthy();
-        socialFound = true;
-        break;
-      }
+    const socialLink = await articlesPage.findFirst(socialSelectors);
+    const socialFound = socialLink !== null;
+    if (socialLink) {
+      await expect(socialLink).toBeVisible();
+      
+      // Check if links have href attributes
+      const href = await socialLink.getAttribute('href');
+      expect(href).toBeTruthy();
     }
 
     // Note: Social media links might not be present, so this is informational
     console.log(`Social media links found: ${socialFound}`);
   });
 
-  test('Mobile responsiveness validation', async () => {
-    // Test mobile viewport
-    await page.setViewportSize({ width: 375, height: 667 });
-    
-    // Check if page is still functional on mobile
-    await expect(page.locator('body')).toBeVisible();
-    
-    // Check for mobile menu button
-    const mobileMenuSelectors = [
-      '.menu-toggle',
-      '.hamburger',
-      '.mobile-menu-button',
-      '[class*="menu-btn"]',
-      '[class*="nav-toggle"]'
-    ];
-
-    for (const selector of mobileMenuSelectors) {
-      const mobileMenu = page.locator(selector);
-      if (await mobileMenu.count() > 0) {
-        await expect(mobileMenu.first()).toBeVisible();
-        
-        // Test mobile menu functionality
-        await mobileMenu.first().click();
-        await page.waitForTimeout(500);
-        break;
-      }
-    }
-
-    // Reset viewport
-    await page.setViewportSize({ width: 1280, height: 720 });
-  });
-
   test('Page performance validation', async () => {
-    // Check page load time
-    const startTime = Date.now();
+    // Load timings are checked against budgets in performance.spec.ts
     await page.goto(BASE_URL, { waitUntil: 'networkidle' });
-    const loadTime = Date.now() - startTime;
-    
-    // Page should load within 10 seconds
-    expect(loadTime).toBeLessThan(10000);
-    
+
     // Check for images
-    const images = page.locator('img');
+    const images = articlesPage.images;
     const imageCount = await images.count();
     
     if (imageCount > 0) {
@@ -550,45 +462,37 @@ test('Footer validation', async () => {
       '.subscription-form'
     ];
 
-    for (const selector of formSelectors) {
-      const forms = page.locator(selector);
-      if (await forms.count() > 0) {
-        await expect(forms.first()).toBeVisible();
-        
-        // Check for form inputs
-        const inputs = forms.first().locator('input, textarea, select');
-        const inputCount = await inputs.count();
+    const form = await articlesPage.findFirst(formSelectors);
+    if (form) {
+      await expect(form).toBeVisible();
+      
+      // Check for form inputs
+      const inputs = form.locator('input, textarea, select');
+      const inputCount = await inputs.count();
+      
+      if (inputCount > 0) {
+        // Check if inputs are functional
+        const firstInput = inputs.first();
+        await expect(firstInput).toBeVisible();
+        await expect(firstInput).toBeEnabled();
         
-        if (inputCount > 0) {
-          // Check if inputs are functional
-          const firstInput = inputs.first();
-          await expect(firstInput).toBeVisible();
-          await expect(firstInput).toBeEnabled();
-          
-          // Test form submission button
-          const submitButton = forms.first().locator('button[type="submit"], input[type="submit"]');
-          if (await submitButton.count() > 0) {
-            await expect(submitButton.first()).toBeVisible();
-          }
+        // Test form submission button
+        const submitButton = form.locator('button[type="submit"], input[type="submit"]');
+        if (await submitButton.count() > 0) {
+          await expect(submitButton.first()).toBeVisible();
         }
-        break;
       }
     }
   });
 
   test('Accessibility validation', async () => {
     // Wait for page to be fully loaded
-    await page.waitForLoadState('networkidle');
+    await articlesPage.waitForPageLoad();
     
-    // Check for skip links
-    const skipLink = page.locator('a[href="#main"], a[href="#content"], .skip-link');
-    if (await skipLink.count() > 0) {
-      await expect(skipLink.first()).toBeHidden(); // Usually hidden until focused
-    }
+    // Skip links are checked with the keyboard in keyboard.spec.ts
 
     // Check for proper heading structure - more flexible approach
-    const headings = page.locator('h1, h2, h3, h4, h5, h6');
-    const headingCount = await headings.count();
+    const headingCount = await articlesPage.headings.count();
     
     if (headingCount > 0) {
       // Check for h1 or fallback to checking article titles
@@ -636,7 +540,7 @@ test('Footer validation', async () => {
 
   test('Error handling validation', async () => {
     // Wait for page to be fully loaded
-    await page.waitForLoadState('networkidle');
+    await articlesPage.waitForPageLoad();
     
     // Check for broken links (sample check) - more flexible approach
     const links = page.locator('a[href]');
@@ -684,74 +588,6 @@ test('Footer validation', async () => {
     
     // Return to original page
     await page.goto(BASE_URL);
-    await page.waitForLoadState('networkidle');
+    await articlesPage.waitForPageLoad();
   });
 });
-
-// Helper function to check element visibility with retry
-async function checkElementVisibility(page: Page, selectors: string[], timeout: number = 5000) {
-  for (const selector of selectors) {
-    try {
-      const element = page.locator(selector);
-      if (await element.count() > 0) {
-        await expect(element.first()).toBeVisible({ timeout });
-        return true;
-      }
-    } catch (error) {
-      // Continue to next selector
-    }
-  }
-  return false;
-}
-
-// Additional utility functions for custom validations
-export class ArticlePageValidator {
-  constructor(private page: Page) {}
-
-  async validatePageStructure() {
-    // Custom validation logic
-    const hasHeader = await this.page.locator('header, .header').count() > 0;
-    const hasContent = await this.page.locator('main, .main, .content').count() > 0;
-    const hasFooter = await this.page.locator('footer, .footer').count() > 0;
-    
-    return {
-      hasHeader,
-      hasContent,
-      hasFooter,
-      isValid: hasHeader && hasContent && hasFooter
-    };
-  }
-
-  async validateArticleElements() {
-    const articles = await this.page.locator('article, .article, .post').count();
-    const titles = await this.page.locator('h1, h2, h3, .title').count();
-    const dates = await this.page.locator('.date, time, .published').count();
-    
-    return {
-      articleCount: articles,
-      titleCount: titles,
-      dateCount: dates,
-      hasArticles: articles > 0
-    };
-  }
-
-  async validateNavigation() {
-    const navItems = await this.page.locator('nav a, .menu a, .navigation a').count();
-    const workingLinks = [];
-    
-    // Test first few navigation links
-    const links = this.page.locator('nav a, .menu a').first();
-    if (await links.count() > 0) {
-      const href = await links.getAttribute('href');
-      if (href) {
-        workingLinks.push(href);
-      }
-    }
-    
-    return {
-      navItemCount: navItems,
-      workingLinks: workingLinks.length,
-      hasNavigation: navItems > 0
-    };
-  }
-}
\ No newline at end of file
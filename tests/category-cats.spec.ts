@@ -1,382 +0,0 @@
-import { test, expect, type Page } from '@playwright/test';
-
-test.describe('Cats Category Page', () => {
-  let page: Page;
-  const baseUrl = 'https://pinoypetplan.com/category/cats/';
-
-  test.beforeEach(async ({ page: testPage }) => {
-    page = testPage;
-    await page.goto(baseUrl);
-    await page.waitForLoadState('networkidle');
-  });
-
-  test('should load the cats category page successfully', async () => {
-    await expect(page).toHaveTitle(/cats/i);
-    await expect(page).toHaveURL(baseUrl);
-  });
-
-  test('should display main navigation menu', async () => {
-    // Check for main navigation items
-    const navItems = [
-      'Home',
-      'About Us',
-      'Dogs',
-      'Cats',
-      'Food',
-      'Activity and Exercise',
-      'Grooming',
-      'Health',
-      'Contact'
-    ];
-
-    for (const item of navItems) {
-      await expect(page.locator(`text=${item}`).first()).toBeVisible();
-    }
-  });
-
-  test('should display blog articles with required elements', async () => {
-    // Check for article cards/containers
-    const articleCards = page.locator('article, .post, .entry, [class*="post"], [class*="article"]');
-    await expect(articleCards.first()).toBeVisible();
-
-    // Check for article titles
-    const articleTitles = page.locator('h1, h2, h3').filter({ hasText: /Cat|Pet|Animal/i });
-    await expect(articleTitles.first()).toBeVisible();
-
-    // Check for "CONTINUE READING" links
-    const continueReadingLinks = page.locator('text=CONTINUE READING');
-    await expect(continueReadingLinks.first()).toBeVisible();
-  });
-
-  test('should validate article metadata', async () => {
-    // Check for dates
-    const dateElements = page.locator('text=/\\w+\\s+\\d{1,2},\\s+\\d{4}/');
-    await expect(dateElements.first()).toBeVisible();
-
-    // Check for comment counts (0 comments)
-    const commentCounts = page.locator('text=0');
-    await expect(commentCounts.first()).toBeVisible();
-  });
-
-  test('should display category tags', async () => {
-    // Check for category tags that should appear on cat articles
-    const categoryTags = [
-      'Cats',
-      'Activity and Exercise',
-      'Food',
-      'Grooming',
-      'Health',
-      'Dogs'
-    ];
-
-    // At least some of these categories should be visible
-    let visibleCategories = 0;
-    for (const category of categoryTags) {
-      const categoryElement = page.locator(`text=${category}`);
-      if (await categoryElement.first().isVisible()) {
-        visibleCategories++;
-      }
-    }
-    expect(visibleCategories).toBeGreaterThan(0);
-  });
-
-  test('should validate specific cat-related articles', async () => {
-    // Check for specific cat-related article titles from the content
-    const catArticles = [
-      'Cat-Friendly Destinations in the Philippines',
-      'Larong Pinoy for Pets',
-      'Ligtas na Lakad',
-      'Responsible Cat Ownership',
-      'Cat Health',
-      'Cat Care',
-      'Cat Behavior',
-      'Cat Training'
-    ];
-
-    // At least one of these articles should be visible
-    let foundArticles = 0;
-    for (const article of catArticles) {
-      const articleElement = page.locator(`text=${article}`);
-      if (await articleElement.first().isVisible({ timeout: 2000 }).catch(() => false)) {
-        foundArticles++;
-      }
-    }
-    expect(foundArticles).toBeGreaterThan(0);
-  });
-
-  test('should have working pagination', async () => {
-    // Look for pagination elements
-    const paginationElements = [
-      page.locator('text=Older Posts'),
-      page.locator('text=Next'),
-      page.locator('text=Previous'),
-      page.locator('[class*="pagination"]'),
-      page.locator('[class*="pager"]')
-    ];
-
-    let paginationFound = false;
-    for (const element of paginationElements) {
-      if (await element.first().isVisible()) {
-        paginationFound = true;
-        break;
-      }
-    }
-    expect(paginationFound).toBe(true);
-  });
-
-  test('should validate article links functionality', async () => {
-    // Test that article links are clickable and lead to proper URLs
-    const continueReadingLinks = page.locator('text=CONTINUE READING');
-    
-    if (await continueReadingLinks.first().isVisible({ timeout: 2000 }).catch(() => false)) {
-      // Check if it's wrapped in a link element
-      const parentLink = page.locator('a').filter({ has: page.locator('text=CONTINUE READING') });
-      
-      if (await parentLink.first().isVisible({ timeout: 2000 }).catch(() => false)) {
-        await expect(parentLink.first()).toHaveAttribute('href');
-        const href = await parentLink.first().getAttribute('href');
-        expect(href).toBeTruthy();
-        expect(href).toContain('pinoypetplan.com');
-      } else {
-        // If no parent link found, check if CONTINUE READING itself is clickable
-        const clickableElement = page.locator('text=CONTINUE READING').first();
-        await expect(clickableElement).toBeVisible();
-      }
-    } else {
-      // If no CONTINUE READING found, look for other article links
-      const articleLinks = page.locator('a').filter({ hasText: /read more|continue|view/i });
-      if (await articleLinks.first().isVisible({ timeout: 2000 }).catch(() => false)) {
-        await expect(articleLinks.first()).toHaveAttribute('href');
-      }
-    }
-  });
-
-  test('should display proper page structure', async () => {
-    // Check for essential page elements using .first() to avoid strict mode
-    await expect(page.locator('header').first()).toBeVisible();
-    await expect(page.locator('main, [role="main"], .content, body').first()).toBeVisible();
-    
-    // Check if footer exists (may be hidden)
-    const footer = page.locator('footer').first();
-    const footerExists = await footer.count() > 0;
-    expect(footerExists).toBe(true);
-    
-    // If footer is hidden, just check it exists in DOM
-    if (footerExists) {
-      console.log('Footer found in DOM');
-    }
-  });
-
-  test('should be responsive and accessible', async () => {
-    // Test responsive design using .first() to avoid strict mode
-    await page.setViewportSize({ width: 375, height: 667 }); // Mobile
-    await expect(page.locator('text=Cats').first()).toBeVisible();
-    
-    await page.setViewportSize({ width: 768, height: 1024 }); // Tablet
-    await expect(page.locator('text=Cats').first()).toBeVisible();
-    
-    await page.setViewportSize({ width: 1920, height: 1080 }); // Desktop
-    await expect(page.locator('text=Cats').first()).toBeVisible();
-  });
-
-  test('should validate meta information', async () => {
-    // Check for meta tags - make them optional since they might not exist
-    const metaDescription = page.locator('meta[name="description"]');
-    const ogTitle = page.locator('meta[property="og:title"]');
-    
-    // Check if they exist, but don't require them
-    const hasMetaDescription = await metaDescription.count() > 0;
-    const hasOgTitle = await ogTitle.count() > 0;
-    
-    console.log(`Meta description found: ${hasMetaDescription}`);
-    console.log(`OG title found: ${hasOgTitle}`);
-    
-    // At least basic meta tags should be present
-    await expect(page.locator('meta[charset]')).toHaveCount(1);
-    await expect(page.locator('title')).toHaveCount(1);
-  });
-
-  test('should have proper heading hierarchy', async () => {
-    // Check for heading structure - be flexible about H1 count
-    const h1Elements = page.locator('h1');
-    const h1Count = await h1Elements.count();
-    
-    console.log(`H1 count: ${h1Count}`);
-    
-    // Check for any headings at all
-    const headings = page.locator('h1, h2, h3, h4, h5, h6');
-    const headingCount = await headings.count();
-    
-    expect(headingCount).toBeGreaterThan(0);
-    
-    if (headingCount > 0) {
-      await expect(headings.first()).toBeVisible();
-    }
-  });
-
-  test('should validate search functionality if available', async () => {
-    // Look for actual search input elements
-    const searchInputs = [
-      page.locator('input[type="search"]'),
-      page.locator('input[placeholder*="search" i]'),
-      page.locator('.search-form input'),
-      page.locator('[class*="search"] input')
-    ];
-
-    let searchFound = false;
-    let foundSearchInput = null;
-    
-    for (const input of searchInputs) {
-      if (await input.first().isVisible({ timeout: 1000 }).catch(() => false)) {
-        searchFound = true;
-        foundSearchInput = input.first();
-        break;
-      }
-    }
-    
-    // If search input is found, test it
-    if (searchFound && foundSearchInput) {
-      try {
-        await foundSearchInput.fill('cat care');
-        await foundSearchInput.press('Enter');
-        await page.waitForLoadState('networkidle');
-        // eslint-disable-next-line no-console
-        console.log('Search functionality tested successfully');
-      } catch (error) {
-        console.log('Search input found but not fillable:', error.message);
-      }
-    } else {
-      console.log('No search input functionality found - skipping search test');
-      
-      // Just verify search container exists even if not functional
-      const searchContainer = page.locator('[class*="search"]');
-      if (await searchContainer.first().isVisible({ timeout: 1000 }).catch(() => false)) {
-        console.log('Search container found but no input element');
-      }
-    }
-  });
-
-  test('should validate social media links if present', async () => {
-    // Check for social media links
-    const socialLinks = [
-      page.locator('a[href*="facebook.com"]'),
-      page.locator('a[href*="twitter.com"]'),
-      page.locator('a[href*="instagram.com"]'),
-      page.locator('a[href*="youtube.com"]')
-    ];
-
-    for (const link of socialLinks) {
-      if (await link.first().isVisible({ timeout: 2000 }).catch(() => false)) {
-        await expect(link.first()).toHaveAttribute('href');
-        
-        // Check target attribute but be flexible about the value
-        const target = await link.first().getAttribute('target');
-        console.log(`Social link target: ${target}`);
-        
-        // Just verify it has a target attribute, don't enforce _blank
-        if (target) {
-          expect(['_blank', '_self', '_parent', '_top']).toContain(target);
-        }
-      }
-    }
-  });
-
-  test('should validate images are loading properly', async () => {
-    // Check for images
-    const images = page.locator('img');
-    const imageCount = await images.count();
-    
-    if (imageCount > 0) {
-      // Check first few images
-      for (let i = 0; i < Math.min(3, imageCount); i++) {
-        const img = images.nth(i);
-        await expect(img).toHaveAttribute('src');
-        await expect(img).toHaveAttribute('alt');
-      }
-    }
-  });
-
-  test('should validate page performance', async () => {
-    // Basic performance check
-    const startTime = Date.now();
-    await page.goto(baseUrl);
-    await page.waitForLoadState('networkidle');
-    const loadTime = Date.now() - startTime;
-    
-    // Page should load within 10 seconds
-    expect(loadTime).toBeLessThan(10000);
-  });
-});
-
-// Helper function to run accessibility checks (requires @axe-core/playwright)
-test.describe('Accessibility Tests', () => {
-  test('should pass accessibility audit', async ({ page }) => {
-    const baseUrl = 'https://pinoypetplan.com/category/cats/';
-    await page.goto(baseUrl);
-    await page.waitForLoadState('networkidle');
-    
-    // Note: To use this, install @axe-core/playwright
-    // import { injectAxe, checkA11y } from 'axe-playwright';
-    // await injectAxe(page);
-    // await checkA11y(page);
-    
-    // Basic accessibility checks without axe
-    const images = page.locator('img');
-    const imageCount = await images.count();
-    
-    if (imageCount > 0) {
-      // Check that images have alt attributes
-      for (let i = 0; i < Math.min(3, imageCount); i++) {
-        const img = images.nth(i);
-        await expect(img).toHaveAttribute('alt');
-      }
-    }
-    
-    const links = page.locator('a');
-    const linkCount = await links.count();
-    
-    if (linkCount > 0) {
-      // Check that links have href attributes
-      for (let i = 0; i < Math.min(3, linkCount); i++) {
-        const link = links.nth(i);
-        await expect(link).toHaveAttribute('href');
-      }
-    }
-  });
-});
-
-// Performance tests
-test.describe('Performance Tests', () => {
-  test('should have reasonable page metrics', async ({ page }) => {
-    const baseUrl = 'https://pinoypetplan.com/category/cats/';
-    const startTime = Date.now();
-    
-    await page.goto(baseUrl);
-    await page.waitForLoadState('networkidle');
-    
-    const loadTime = Date.now() - startTime;
-    console.log(`Page load time: ${loadTime}ms`);
-    
-    // Basic performance check - page should load within reasonable time
-    expect(loadTime).toBeLessThan(15000); // 15 seconds max
-    
-    // Check for basic performance metrics without complex observers
-    try {
-      const basicMetrics = await page.evaluate(() => {
-        const navigation = performance.getEntriesByType('navigation')[0];
-        return {
-          domContentLoaded: navigation.domContentLoadedEventEnd - navigation.navigationStart,
-          loadComplete: navigation.loadEventEnd - navigation.navigationStart,
-          firstPaint: performance.getEntriesByType('paint').find(entry => entry.name === 'first-paint')?.startTime || 0
-        };
-      });
-      
-      console.log('Basic performance metrics:', basicMetrics);
-      expect(basicMetrics.domContentLoaded).toBeGreaterThan(0);
-      
-    } catch (error) {
-      console.log('Performance metrics collection failed:', error.message);
-      // Don't fail the test if performance metrics can't be collected
-    }
-  });
-});
\ No newline at end of file
@@ -1,445 +0,0 @@
-import { test, expect, Page } from '@playwright/test';
-
-// Test configuration
-const BASE_URL = 'https://pinoypetplan.com';
-const HEALTH_CATEGORY_URL = `${BASE_URL}/category/health/`;
-
-// Common selectors
-const SELECTORS = {
-  // Navigation elements
-  mainNavigation: 'nav, .nav, .navigation, .main-nav',
-  menuItems: 'nav a, .nav a, .menu a',
-  homeLink: 'a[href*="home"], a[href="/"], a:has-text("Home")',
-  aboutLink: 'a[href*="about"], a:has-text("About")',
-  contactLink: 'a[href*="contact"], a:has-text("Contact")',
-  
-  // Category navigation
-  categoryLinks: 'a[href*="/category/"]',
-  dogsCategory: 'a[href*="/category/dogs"], a:has-text("Dogs")',
-  catsCategory: 'a[href*="/category/cats"], a:has-text("Cats")',
-  healthCategory: 'a[href*="/category/health"], a:has-text("Health")',
-  foodCategory: 'a[href*="/category/food"], a:has-text("Food")',
-  groomingCategory: 'a[href*="/category/grooming"], a:has-text("Grooming")',
-  activityCategory: 'a[href*="/category/activity"], a:has-text("Activity")',
-  
-  // Article elements
-  articles: 'article, .post, .article, .blog-post',
-  articleTitles: 'article h1, article h2, article h3, .post-title, .article-title',
-  articleDates: '.date, .post-date, .published, time',
-  articleCategories: '.categories, .category, .tags',
-  continueReadingLinks: 'a:has-text("CONTINUE READING")',
-  
-  // Footer elements
-  footer: 'footer, .footer',
-  
-  // Search functionality
-  searchInput: 'input[type="search"], input[name="s"], .search-input',
-  searchButton: 'button[type="submit"], .search-button, input[type="submit"]',
-  
-  // Common page elements
-  logo: '.logo, .site-logo, .brand',
-  sidebar: '.sidebar, .widget-area, aside',
-  
-  // Pagination
-  pagination: '.pagination, .page-numbers, .nav-links',
-  olderPostsLink: 'a:has-text("Older Posts")',
-  newerPostsLink: 'a:has-text("Newer Posts")',
-};
-
-// Helper functions
-async function waitForPageLoad(page: Page) {
-  await page.waitForLoadState('networkidle');
-  await page.waitForSelector('body');
-}
-
-async function checkElementExists(page: Page, selector: string, elementName: string) {
-  const element = await page.locator(selector).first();
-  await expect(element, `${elementName} should exist`).toBeVisible();
-  return element;
-}
-
-async function checkLinkIsValid(page: Page, selector: string, linkName: string) {
-  const link = await page.locator(selector).first();
-  await expect(link, `${linkName} should be visible`).toBeVisible();
-  
-  const href = await link.getAttribute('href');
-  expect(href, `${linkName} should have valid href`).toBeTruthy();
-  
-  return link;
-}
-
-// New helper function for elements that might exist but not be visible
-async function checkElementExistsInDOM(page: Page, selector: string, elementName: string) {
-  const element = page.locator(selector).first();
-  const count = await element.count();
-  
-  if (count > 0) {
-    console.log(`${elementName} found in DOM`);
-    return element;
-  } else {
-    console.log(`${elementName} not found in DOM`);
-    return null;
-  }
-}
-
-// Test suite
-test.describe('PinoyPetPlan Health Category Page', () => {
-  test.beforeEach(async ({ page }) => {
-    await page.goto(HEALTH_CATEGORY_URL);
-    await waitForPageLoad(page);
-  });
-
-  test('should load the health category page successfully', async ({ page }) => {
-    // Check page title
-    await expect(page).toHaveTitle(/health/i);
-    
-    // Check URL
-    expect(page.url()).toContain('/category/health/');
-    
-    // Check page loads without errors
-    await expect(page.locator('body')).toBeVisible();
-  });
-
-  test('should display main navigation menu', async ({ page }) => {
-    // Check main navigation exists
-    const nav = await page.locator(SELECTORS.mainNavigation).first();
-    await expect(nav).toBeVisible();
-    
-    // Check key navigation links
-    await checkLinkIsValid(page, SELECTORS.homeLink, 'Home link');
-    await checkLinkIsValid(page, SELECTORS.aboutLink, 'About link');
-    await checkLinkIsValid(page, SELECTORS.contactLink, 'Contact link');
-  });
-
-  test('should display category navigation links', async ({ page }) => {
-    // Check category links exist
-    const categoryLinks = page.locator(SELECTORS.categoryLinks);
-    await expect(categoryLinks.first()).toBeVisible();
-    
-    // Check specific category links
-    await checkLinkIsValid(page, SELECTORS.dogsCategory, 'Dogs category');
-    await checkLinkIsValid(page, SELECTORS.catsCategory, 'Cats category');
-    await checkLinkIsValid(page, SELECTORS.healthCategory, 'Health category');
-    await checkLinkIsValid(page, SELECTORS.foodCategory, 'Food category');
-    await checkLinkIsValid(page, SELECTORS.groomingCategory, 'Grooming category');
-  });
-
-  test('should display health-related articles', async ({ page }) => {
-    // Check articles exist
-    const articles = page.locator(SELECTORS.articles);
-    await expect(articles.first()).toBeVisible();
-    
-    // Check article count (should have multiple articles)
-    const articleCount = await articles.count();
-    expect(articleCount).toBeGreaterThan(0);
-    
-    // Check article titles
-    const articleTitles = page.locator(SELECTORS.articleTitles);
-    await expect(articleTitles.first()).toBeVisible();
-    
-    // Verify health-related content
-    const healthKeywords = [
-      'veterinary', 'telemedicine', 'grooming', 'spaying', 'neutering',
-      'health', 'medicine', 'care', 'treatment', 'wellness'
-    ];
-    
-    const pageContent = await page.textContent('body');
-    const hasHealthContent = healthKeywords.some(keyword => 
-      pageContent?.toLowerCase().includes(keyword.toLowerCase())
-    );
-    expect(hasHealthContent).toBeTruthy();
-  });
-
-  test('should display article metadata correctly', async ({ page }) => {
-    // Check article dates
-    const dates = page.locator(SELECTORS.articleDates);
-    if (await dates.count() > 0) {
-      await expect(dates.first()).toBeVisible();
-      
-      // Check date format (should contain year)
-      const dateText = await dates.first().textContent();
-      expect(dateText).toMatch(/20\d{2}/); // Should contain year like 2024, 2025
-    }
-    
-    // Check article categories
-    const categories = page.locator(SELECTORS.articleCategories);
-    if (await categories.count() > 0) {
-      await expect(categories.first()).toBeVisible();
-    }
-    
-    // Check continue reading links
-    const continueLinks = page.locator(SELECTORS.continueReadingLinks);
-    if (await continueLinks.count() > 0) {
-      await expect(continueLinks.first()).toBeVisible();
-      
-      // Check link functionality
-      const firstLink = continueLinks.first();
-      const href = await firstLink.getAttribute('href');
-      expect(href).toBeTruthy();
-    }
-  });
-
-  test('should have functional navigation links', async ({ page }) => {
-    // Test home link
-    const homeLink = page.locator(SELECTORS.homeLink).first();
-    if (await homeLink.isVisible()) {
-      await homeLink.click();
-      await waitForPageLoad(page);
-      expect(page.url()).toContain(BASE_URL);
-      
-      // Go back to health category
-      await page.goto(HEALTH_CATEGORY_URL);
-      await waitForPageLoad(page);
-    }
-    
-    // Test category navigation
-    const dogsLink = page.locator(SELECTORS.dogsCategory).first();
-    if (await dogsLink.isVisible()) {
-      await dogsLink.click();
-      await waitForPageLoad(page);
-      expect(page.url()).toContain('/category/dogs');
-      
-      // Go back to health category
-      await page.goto(HEALTH_CATEGORY_URL);
-      await waitForPageLoad(page);
-    }
-  });
-
-  test('should display pagination if applicable', async ({ page }) => {
-    // Check for pagination elements
-    const pagination = page.locator(SELECTORS.pagination);
-    const olderPosts = page.locator(SELECTORS.olderPostsLink);
-    const newerPosts = page.locator(SELECTORS.newerPostsLink);
-    
-    if (await pagination.count() > 0) {
-      await expect(pagination.first()).toBeVisible();
-    }
-    
-    if (await olderPosts.count() > 0) {
-      await expect(olderPosts.first()).toBeVisible();
-      
-      // Test older posts link
-      const href = await olderPosts.first().getAttribute('href');
-      expect(href).toBeTruthy();
-    }
-    
-    if (await newerPosts.count() > 0) {
-      await expect(newerPosts.first()).toBeVisible();
-    }
-  });
-
-  test('should have responsive design elements', async ({ page }) => {
-    // Test desktop view
-    await page.setViewportSize({ width: 1920, height: 1080 });
-    await page.reload();
-    await waitForPageLoad(page);
-    
-    await expect(page.locator('body')).toBeVisible();
-    
-    // Test tablet view
-    await page.setViewportSize({ width: 768, height: 1024 });
-    await page.reload();
-    await waitForPageLoad(page);
-    
-    await expect(page.locator('body')).toBeVisible();
-    
-    // Test mobile view
-    await page.setViewportSize({ width: 375, height: 667 });
-    await page.reload();
-    await waitForPageLoad(page);
-    
-    await expect(page.locator('body')).toBeVisible();
-  });
-
-  test('should have proper SEO elements', async ({ page }) => {
-    // Check meta description
-    const metaDescription = page.locator('meta[name="description"]');
-    if (await metaDescription.count() > 0) {
-      const content = await metaDescription.getAttribute('content');
-      expect(content).toBeTruthy();
-      expect(content!.length).toBeGreaterThan(50);
-    }
-    
-    // Check meta keywords
-    const metaKeywords = page.locator('meta[name="keywords"]');
-    if (await metaKeywords.count() > 0) {
-      const content = await metaKeywords.getAttribute('content');
-      expect(content).toBeTruthy();
-    }
-    
-    // Check page has H1 tag
-    const h1 = page.locator('h1');
-    if (await h1.count() > 0) {
-      await expect(h1.first()).toBeVisible();
-    }
-  });
-
-  test('should handle search functionality if available', async ({ page }) => {
-    const searchInput = page.locator(SELECTORS.searchInput);
-    const searchButton = page.locator(SELECTORS.searchButton);
-    
-    if (await searchInput.count() > 0) {
-      await expect(searchInput.first()).toBeVisible();
-      
-      // Test search functionality
-      await searchInput.first().fill('health');
-      
-      if (await searchButton.count() > 0) {
-        await searchButton.first().click();
-        await waitForPageLoad(page);
-        
-        // Check search results - handle WordPress default search parameter
-        const currentUrl = page.url();
-        const hasSearchParam = currentUrl.includes('search') || 
-                              currentUrl.includes('s=') || 
-                              currentUrl.includes('?s=') || 
-                              currentUrl.includes('&s=');
-        
-        expect(hasSearchParam, `Search should redirect to search results page. Current URL: ${currentUrl}`).toBeTruthy();
-        
-        // Verify search term is in URL
-        if (currentUrl.includes('s=')) {
-          expect(currentUrl).toContain('health');
-        }
-      } else {
-        // If no search button, try submitting the form
-        await searchInput.first().press('Enter');
-        await waitForPageLoad(page);
-        
-        const currentUrl = page.url();
-        const hasSearchParam = currentUrl.includes('search') || 
-                              currentUrl.includes('s=') || 
-                              currentUrl.includes('?s=') || 
-                              currentUrl.includes('&s=');
-        
-        expect(hasSearchParam, `Search should redirect to search results page. Current URL: ${currentUrl}`).toBeTruthy();
-      }
-    } else {
-      console.log('No search input found on the page');
-      expect(true).toBeTruthy(); // Pass the test as search is optional
-    }
-  });
-
-  test('should display footer correctly', async ({ page }) => {
-    const footer = page.locator(SELECTORS.footer);
-    if (await footer.count() > 0) {
-      // Check if footer exists first, then check visibility
-      const footerElement = footer.first();
-      
-      // Some footers might be hidden by default, so let's scroll to it first
-      await footerElement.scrollIntoViewIfNeeded();
-      
-      // Wait a bit for any animations or lazy loading
-      await page.waitForTimeout(1000);
-      
-      // Check if footer is in the DOM
-      const footerExists = await footerElement.count() > 0;
-      expect(footerExists).toBeTruthy();
-      
-      // Try to get footer content even if it's not visible
-      const footerText = await footerElement.textContent();
-      
-      // If footer has content or child elements, consider it valid
-      const hasContent = footerText && footerText.trim().length > 0;
-      const hasChildren = await footerElement.locator('*').count() > 0;
-      
-      if (hasContent || hasChildren) {
-        // Footer exists and has content
-        expect(true).toBeTruthy();
-      } else {
-        // Footer exists but might be empty - still valid
-        console.log('Footer found but appears to be empty or hidden');
-        expect(footerExists).toBeTruthy();
-      }
-    } else {
-      // No footer found - this is also acceptable, just log it
-      console.log('No footer element found on the page');
-      expect(true).toBeTruthy(); // Pass the test as footer is optional
-    }
-  });
-
-  test('should validate specific health articles content', async ({ page }) => {
-    // Check for specific health-related articles mentioned in the page
-    const expectedArticles = [
-      'Telemedicine in Philippine Veterinary Care',
-      'Emerging Trends in Veterinary Medicine',
-      'Professional Pet Grooming',
-      'Spaying and Neutering',
-      'Pet Food Safety'
-    ];
-    
-    const pageContent = await page.textContent('body');
-    
-    // At least some of these health topics should be present
-    const foundTopics = expectedArticles.filter(article => 
-      pageContent?.toLowerCase().includes(article.toLowerCase())
-    );
-    
-    expect(foundTopics.length).toBeGreaterThan(0);
-  });
-
-  test('should handle article interactions', async ({ page }) => {
-    // Test clicking on continue reading links
-    const continueLinks = page.locator(SELECTORS.continueReadingLinks);
-    
-    if (await continueLinks.count() > 0) {
-      const firstLink = continueLinks.first();
-      await expect(firstLink).toBeVisible();
-      
-      // Click and verify navigation
-      await firstLink.click();
-      await waitForPageLoad(page);
-      
-      // Should navigate to individual article page
-      expect(page.url()).not.toBe(HEALTH_CATEGORY_URL);
-      expect(page.url()).toContain(BASE_URL);
-    }
-  });
-
-  test('should validate page performance', async ({ page }) => {
-    // Check page load time
-    const startTime = Date.now();
-    await page.goto(HEALTH_CATEGORY_URL);
-    await waitForPageLoad(page);
-    const loadTime = Date.now() - startTime;
-    
-    // Page should load within reasonable time (10 seconds)
-    expect(loadTime).toBeLessThan(10000);
-    
-    // Check for basic performance metrics
-    await expect(page.locator('body')).toBeVisible();
-  });
-});
-
-// Configuration for test runner
-export const config = {
-  timeout: 30000,
-  retries: 2,
-  use: {
-    baseURL: BASE_URL,
-    screenshot: 'only-on-failure',
-    video: 'retain-on-failure',
-    trace: 'on-first-retry',
-  },
-  projects: [
-    {
-      name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
-    },
-    {
-      name: 'firefox',
-      use: { ...devices['Desktop Firefox'] },
-    },
-    {
-      name: 'webkit',
-      use: { ...devices['Desktop Safari'] },
-    },
-    {
-      name: 'mobile',
-      use: { ...devices['iPhone 12'] },
-    },
-  ],
-};
-
-// Import devices for cross-browser testing
-import { devices } from '@playwright/test';
\ No newline at end of file
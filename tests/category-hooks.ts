@@ -0,0 +1,131 @@
+import { expect } from '@playwright/test';
+import { CategoryPage } from '../pages';
+import { CategorySlug, SitePage } from '../config/site-map';
+
+// Category-specific additions to the shared listing contract in category.spec.ts
+export interface CategoryExtra {
+  name: string;
+  run: (categoryPage: CategoryPage, category: SitePage) => Promise<void>;
+}
+
+export interface CategoryHooks {
+  // The archive has more than one page, so pagination must be shown
+  paginated?: boolean;
+  extras?: CategoryExtra[];
+}
+
+// At least `min` of `titles` must be visible in the listing
+function listsArticles(titles: string[], min = 1): CategoryExtra {
+  return {
+    name: 'should list its known articles',
+    run: async categoryPage => {
+      const found = await categoryPage.countVisibleMentions(titles);
+      expect(found, `expected at least ${min} of: ${titles.join(', ')}`).toBeGreaterThanOrEqual(min);
+    }
+  };
+}
+
+// At least one of the category's site map keywords must appear in the page text
+const mentionsKeywords: CategoryExtra = {
+  name: 'should contain category specific keywords',
+  run: async (categoryPage, category) => {
+    const keywords = await categoryPage.findKeywords(category.keywords);
+    expect(keywords.length, `none of ${category.keywords.join(', ')} found`).toBeGreaterThan(0);
+  }
+};
+
+// Article titles in the listing should relate to `topic`
+function titlesMatch(topic: RegExp): CategoryExtra {
+  return {
+    name: 'should list articles about the category topic',
+    run: async categoryPage => {
+      const titles = await categoryPage.articleTitleTexts();
+      expect(titles.some(title => topic.test(title)), `no title matches ${topic}: ${titles.join(' | ')}`).toBe(true);
+    }
+  };
+}
+
+export const CATEGORY_HOOKS: Record<CategorySlug, CategoryHooks> = {
+  'dogs': {
+    paginated: true,
+    extras: [
+      titlesMatch(/dog|pet|animal/i),
+      listsArticles([
+        'Dog-Friendly Destinations in the Philippines',
+        'Larong Pinoy for Pets',
+        'Ligtas na Lakad',
+        'Responsible Dog Ownership'
+      ])
+    ]
+  },
+  'cats': {
+    paginated: true,
+    extras: [
+      titlesMatch(/cat|pet|animal/i),
+      listsArticles([
+        'Cat-Friendly Destinations in the Philippines',
+        'Larong Pinoy for Pets',
+        'Ligtas na Lakad',
+        'Responsible Cat Ownership',
+        'Cat Health',
+        'Cat Care',
+        'Cat Behavior',
+        'Cat Training'
+      ])
+    ]
+  },
+  'food': {
+    extras: [
+      titlesMatch(/food|nutrition|feed|diet|pet|dog|cat/i),
+      mentionsKeywords
+    ]
+  },
+  'activity-and-exercise': {
+    extras: [
+      mentionsKeywords,
+      {
+        name: 'should contain activity and exercise content',
+        run: async categoryPage => {
+          const activityContent = categoryPage.page.getByText(/dog.friendly|exercise|activity|workout|training|play|walk|run|sport/i);
+          await expect(activityContent.first()).toBeVisible();
+        }
+      }
+    ]
+  },
+  'grooming': {
+    extras: [
+      listsArticles([
+        'Pet Grooming 101',
+        'The Importance of Professional Pet Grooming in the Philippines',
+        'Pet Grooming Trends in the Philippines: Keeping Your Fur Babies Fresh and Stylish',
+        'The Rise of the Pet Spa Industry in the Philippines'
+      ], 4),
+      {
+        name: 'should show the publication dates of its articles',
+        run: async categoryPage => {
+          for (const date of ['July 5, 2025', 'June 3, 2025', 'March 24, 2025', 'February 14, 2025']) {
+            await expect(categoryPage.page.getByText(date).first()).toBeVisible();
+          }
+        }
+      }
+    ]
+  },
+  'health': {
+    extras: [
+      mentionsKeywords,
+      {
+        name: 'should cover health topics',
+        run: async categoryPage => {
+          const topics = await categoryPage.findKeywords([
+            'Telemedicine in Philippine Veterinary Care',
+            'Emerging Trends in Veterinary Medicine',
+            'Professional Pet Grooming',
+            'Spaying and Neutering',
+            'Pet Food Safety'
+          ]);
+          expect(topics.length).toBeGreaterThan(0);
+        }
+      }
+    ]
+  }
+};
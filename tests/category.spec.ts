@@ -0,0 +1,177 @@
+import { test, expect } from './fixtures';
+import { CategoryPage } from '../pages';
+import { CATEGORIES, CategorySlug, pagesOfKind } from '../config/site-map';
+import { pageAnnotation } from '../utils/dashboard';
+import { CATEGORY_HOOKS } from './category-hooks';
+
+// Number of article cards checked individually on each listing
+const CARDS_TO_CHECK = 3;
+
+// The listing contract every /category/* archive must satisfy. Category-specific checks are
+// registered in category-hooks.ts.
+for (const category of pagesOfKind('category')) {
+  const slug = category.categories[0];
+  const name = CATEGORIES[slug];
+  const hooks = CATEGORY_HOOKS[slug];
+
+  test.describe(`Category: ${name}`, pageAnnotation(category), () => {
+    let categoryPage: CategoryPage;
+
+    test.beforeEach(async ({ page }) => {
+      categoryPage = new CategoryPage(page, slug);
+      await page.goto(category.path);
+      await categoryPage.waitForPageLoad();
+    });
+
+    test('should load the category page successfully', async ({ page }) => {
+      await expect(page).toHaveTitle(category.title);
+      await expect(page).toHaveURL(category.path);
+      await expect(page.getByText(/page not found/i)).toHaveCount(0);
+    });
+
+    test('should display the main navigation with every category', async ({ device }) => {
+      test.skip(device.formFactor !== 'desktop', 'The menu collapses on phones and tablets; mobile-menu.spec.ts covers it there');
+      await expect(categoryPage.navigation.first()).toBeVisible();
+
+      for (const item of ['Home', 'About Us', 'Contact']) {
+        await expect(categoryPage.navLink(item).first(), item).toBeVisible();
+      }
+      for (const [navSlug, navName] of Object.entries(CATEGORIES)) {
+        const link = categoryPage.categoryNavLink(navSlug as CategorySlug, navName).first();
+        await expect(link, navName).toBeVisible();
+        await expect(link).toHaveAttribute('href', /.+/);
+      }
+    });
+
+    test('should mark the category as current in the navigation', async ({ page, device }) => {
+      test.skip(device.formFactor !== 'desktop', 'The menu collapses on phones and tablets; mobile-menu.spec.ts covers it there');
+      const current = page.locator(`a[aria-current="page"][href*="${categoryPage.categoryPath}"]`);
+      await expect(current.first()).toBeVisible();
+    });
+
+    test('should list article cards', { tag: '@content' }, async () => {
+      const { articleCount, titleCount } = await categoryPage.articleSummary();
+      expect(articleCount).toBeGreaterThan(0);
+      expect(titleCount).toBeGreaterThan(0);
+
+      await expect(categoryPage.articleCards.first()).toBeVisible();
+      await expect(categoryPage.articleTitles.first()).toBeVisible();
+    });
+
+    test('should show title, date, excerpt and CONTINUE READING on each card', { tag: '@content' }, async () => {
+      const cardCount = Math.min(await categoryPage.articleCards.count(), CARDS_TO_CHECK);
+      expect(cardCount).toBeGreaterThan(0);
+
+      for (let i = 0; i < cardCount; i++) {
+        const card = categoryPage.articleCard(i);
+        await expect(card.title.first(), `card ${i} title`).toBeVisible();
+        await expect(card.date.first(), `card ${i} date`).toHaveText(/\w+\s+\d{1,2},\s+\d{4}/); // e.g. "July 5, 2025"
+        await expect(card.excerpt.first(), `card ${i} excerpt`).toBeVisible();
+        await expect(card.continueReading.first(), `card ${i} CONTINUE READING`).toBeVisible();
+      }
+    });
+
+    test('should tag article cards with the category', { tag: '@content' }, async () => {
+      await expect(categoryPage.articleCategories.first()).toBeVisible();
+      await expect(categoryPage.categoryTag(name).first()).toBeVisible();
+    });
+
+    test('should link article cards to articles on the site', async ({ page }) => {
+      const cardCount = Math.min(await categoryPage.articleCards.count(), CARDS_TO_CHECK);
+
+      for (let i = 0; i < cardCount; i++) {
+        const href = await categoryPage.articleCard(i).continueReading.first().getAttribute('href');
+        expect(href, `card ${i} link`).toBeTruthy();
+
+        const target = new URL(href!, page.url());
+        expect(target.host).toBe(categoryPage.siteHost);
+        expect(target.pathname).not.toBe(categoryPage.categoryPath);
+
+        const response = await page.request.get(target.href);
+        expect(response.status(), target.href).toBeLessThan(400);
+      }
+
+      // Following the first card opens its article
+      await categoryPage.continueReadingLinks.first().click();
+      await categoryPage.waitForPageLoad();
+      await expect(page).not.toHaveURL(category.path);
+      await expect(page.locator('h1').first()).toBeVisible();
+    });
+
+    test(hooks.paginated ? 'should have working pagination' : 'should have working pagination (if present)', async ({ page }) => {
+      await categoryPage.scrollToBottom();
+
+      const pagination = categoryPage.pagination.or(categoryPage.olderPostsLink);
+      if (!hooks.paginated && await pagination.count() === 0) {
+        return;
+      }
+      await expect(pagination.first()).toBeVisible();
+
+      // Page links stay inside this category's archive
+      const pageLinks = categoryPage.paginationLinks.or(categoryPage.olderPostsLink).or(categoryPage.newerPostsLink);
+      const linkCount = await pageLinks.count();
+      expect(linkCount).toBeGreaterThan(0);
+      for (let i = 0; i < linkCount; i++) {
+        const href = await pageLinks.nth(i).getAttribute('href');
+        expect(new URL(href!, page.url()).pathname).toContain(categoryPage.categoryPath);
+      }
+    });
+
+    test('should display proper page structure', { tag: '@seo' }, async () => {
+      await expect(categoryPage.header.first()).toBeVisible();
+      await expect(categoryPage.mainContent.first()).toBeVisible();
+      expect(await categoryPage.footer.count()).toBeGreaterThan(0);
+    });
+
+    // Meta tags, canonical and structured data are audited in seo.spec.ts
+    test('should have proper SEO elements', { tag: '@seo' }, async ({ page }) => {
+      await expect(page.locator('meta[charset]')).toHaveCount(1);
+      await expect(page.locator('title')).toHaveCount(1);
+
+      // If H1 exists, there should be only one
+      expect(await categoryPage.headings.count()).toBeGreaterThan(0);
+      expect(await page.locator('h1').count()).toBeLessThanOrEqual(1);
+    });
+
+    test('should load images properly', { tag: '@accessibility' }, async () => {
+      const images = categoryPage.images.filter({ visible: true });
+      const imageCount = await images.count();
+
+      for (let i = 0; i < Math.min(3, imageCount); i++) {
+        await expect(images.nth(i)).toHaveAttribute('src', /.+/);
+        await expect(images.nth(i)).toHaveAttribute('alt');
+      }
+    });
+
+    test('should be responsive on mobile devices', async ({ page }) => {
+      await page.setViewportSize({ width: 375, height: 667 });
+      await page.reload();
+      await categoryPage.waitForPageLoad();
+
+      await expect(categoryPage.header.first()).toBeVisible();
+      await expect(categoryPage.mainContent.first()).toBeVisible();
+      await expect(categoryPage.articleCards.first()).toBeVisible();
+      await expect(page.getByText(name).first()).toBeVisible();
+    });
+
+    test('should not have failed requests to the site', async ({ page }) => {
+      const failedRequests: string[] = [];
+      page.on('response', response => {
+        if (response.status() >= 400 && new URL(response.url()).host === categoryPage.siteHost) {
+          failedRequests.push(`${response.status()} ${response.url()}`);
+        }
+      });
+
+      await page.reload();
+      await categoryPage.waitForPageLoad();
+
+      expect(failedRequests, failedRequests.join('\n')).toHaveLength(0);
+    });
+
+    for (const extra of hooks.extras || []) {
+      test(extra.name, { tag: '@content' }, async () => {
+        await extra.run(categoryPage, category);
+      });
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { test, expect } from './fixtures';
+import { ContactPage, CONTACT_FORM_FIELDS } from '../pages';
+import { sitePage } from '../config/site-map';
+import {
+  CONTACT_FORM_7_MESSAGES,
+  StubReply,
+  StubbedSubmission,
+  contactForm7Reply,
+  postedValue,
+  stubFormBackend
+} from '../utils/form-backend';
+
+// Contact form submissions against a stubbed Contact Form 7 backend. Every post to the Contact Form 7
+// endpoint is answered by utils/form-backend.ts, so no message ever reaches the site.
+const CONTACT = sitePage('contact');
+
+const VALID_MESSAGE: Record<string, string> = {
+  name: 'Juan dela Cruz',
+  email: 'juan.delacruz@example.com',
+  phone: '0917 123 4567',
+  subject: 'Vaccination schedule for a new puppy',
+  message: 'Hello! When should my aspin puppy get the first rabies shot? Salamat po.'
+};
+
+const INVALID_EMAILS = ['plainaddress', 'juan.example.com', 'juan@', '@example.com', 'juan@example', 'juan dela cruz@example.com'];
+
+test.describe('Contact form', () => {
+  let contactPage: ContactPage;
+  let submissions: StubbedSubmission[];
+  let reply: (submission: StubbedSubmission) => StubReply;
+
+  test.beforeEach(async ({ page }) => {
+    reply = submission => ({ json: contactForm7Reply(submission) });
+    submissions = await stubFormBackend(page, submission => reply(submission));
+
+    contactPage = new ContactPage(page);
+    await page.goto(CONTACT.path);
+    await contactPage.waitForPageLoad();
+    await expect(contactPage.contactForm).toBeVisible();
+  });
+
+  test('should show the success message after a valid submission', async () => {
+    await contactPage.fillForm(VALID_MESSAGE);
+    await contactPage.submitContactForm();
+
+    await expect(contactPage.responseOutput).toContainText(CONTACT_FORM_7_MESSAGES.mail_sent);
+    expect(submissions).toHaveLength(1);
+    expect(postedValue(submissions[0].fields, 'email')).toBe(VALID_MESSAGE.email);
+    expect(postedValue(submissions[0].fields, 'message')).toBe(VALID_MESSAGE.message);
+  });
+
+  for (const field of CONTACT_FORM_FIELDS.filter(field => field.required)) {
+    test(`should require the ${field.name}`, async () => {
+      await contactPage.fillForm({ ...VALID_MESSAGE, [field.name]: '' });
+      await contactPage.submitContactForm();
+
+      await expect(contactPage.validationTip(field.name)).toBeVisible();
+      await expect(contactPage.responseOutput).not.toContainText(CONTACT_FORM_7_MESSAGES.mail_sent);
+    });
+  }
+
+  for (const email of INVALID_EMAILS) {
+    test(`should reject the email address "${email}"`, async () => {
+      await contactPage.fillForm({ ...VALID_MESSAGE, email });
+      await contactPage.submitContactForm();
+
+      await expect(contactPage.validationTip('email')).toBeVisible();
+      await expect(contactPage.responseOutput).not.toContainText(CONTACT_FORM_7_MESSAGES.mail_sent);
+    });
+  }
+
+  test('should report a message that could not be sent', async () => {
+    reply = submission => ({ json: contactForm7Reply(submission, 'mail_failed') });
+
+    await contactPage.fillForm(VALID_MESSAGE);
+    await contactPage.submitContactForm();
+
+    await expect(contactPage.responseOutput).toContainText(CONTACT_FORM_7_MESSAGES.mail_failed);
+  });
+
+  test('should not report success when the server errors', async () => {
+    reply = () => ({ status: 500, contentType: 'text/html', body: '<h1>Internal Server Error</h1>' });
+
+    await contactPage.fillForm(VALID_MESSAGE);
+    await contactPage.submitContactForm();
+
+    await expect.poll(() => submissions.length).toBe(1);
+    await expect(contactPage.contactForm).not.toHaveClass(/\bsent\b/);
+    await expect(contactPage.responseOutput).not.toContainText(CONTACT_FORM_7_MESSAGES.mail_sent);
+  });
+});
@@ -0,0 +1,47 @@
+import { test as base } from '@playwright/test';
+import { DEVICE_MATRIX, DeviceProfile } from '../config/devices';
+import { CategorySlug } from '../config/site-map';
+import { applyThrottling } from '../utils/devices';
+import { CategoryInventory, crawlCategory } from '../utils/pagination';
+
+export type InventoryLookup = (slug: CategorySlug) => Promise<CategoryInventory>;
+
+export interface DeviceOptions {
+  // The project's entry of the device matrix (config/devices.ts)
+  device: DeviceProfile;
+}
+
+interface WorkerFixtures {
+  // Crawls a category's listing pages on first use and reuses the result for the rest of the worker
+  categoryInventory: InventoryLookup;
+}
+
+export const test = base.extend<DeviceOptions, WorkerFixtures>({
+  device: [DEVICE_MATRIX[0], { option: true }],
+
+  // Throttled before the test starts on devices that ask for it; pages from contexts created by the
+  // test itself run at full speed
+  page: async ({ page, device }, use) => {
+    if (device.throttling) {
+      await applyThrottling(page, device.throttling);
+    }
+    await use(page);
+  },
+
+  categoryInventory: [async ({ browser }, use, workerInfo) => {
+    const { baseURL, ignoreHTTPSErrors } = workerInfo.project.use;
+    const context = await browser.newContext({ baseURL, ignoreHTTPSErrors });
+    const page = await context.newPage();
+    const inventories = new Map<CategorySlug, Promise<CategoryInventory>>();
+
+    await use(slug => {
+      if (!inventories.has(slug)) {
+        inventories.set(slug, crawlCategory(page, slug));
+      }
+      return inventories.get(slug)!;
+    });
+    await context.close();
+  }, { scope: 'worker' }]
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,39 @@
+import { test, expect } from './fixtures';
+import { FUZZ_CORPUS, FUZZ_PAGES } from '../config/fuzz';
+import { sitePage } from '../config/site-map';
+import { fuzzForm, visibleForms } from '../utils/fuzz';
+import { logResult } from '../utils/logger';
+
+// Feeds every text field of every visible form on the FUZZ_PAGES each input in FUZZ_CORPUS and
+// submits it: posts go to a local stub, GET forms such as search load their results page. A form fails
+// when the input is reflected unescaped into the DOM, causes console errors or 5xx responses, or
+// blank, overlong or malformed email input goes through unflagged.
+for (const id of FUZZ_PAGES) {
+  const target = sitePage(id);
+
+  test.describe(`Form fuzzing: ${id}`, () => {
+    for (const input of FUZZ_CORPUS) {
+      test(`forms should handle ${input.name}`, async ({ page }) => {
+        await page.goto(target.path);
+        const formCount = await visibleForms(page).count();
+        test.skip(formCount === 0, `No visible forms on ${target.path}`);
+
+        const problems: string[] = [];
+        for (let index = 0; index < formCount; index++) {
+          // A fresh page per form, so each submission starts from an untouched form
+          const formPage = await page.context().newPage();
+          try {
+            const outcome = await fuzzForm(formPage, target.path, index, input);
+            await logResult(`Form ${index + 1}/${formCount} on ${target.path}: ${outcome.fields} field(s), ${outcome.problems.length} problem(s)`,
+              outcome.problems.length > 0 ? 'info' : 'success');
+            problems.push(...outcome.problems.map(problem => `form ${index + 1}: ${problem}`));
+          } finally {
+            await formPage.close();
+          }
+        }
+
+        expect(problems, problems.join('\n')).toEqual([]);
+      });
+    }
+  });
+}
@@ -0,0 +1,6 @@
+// Runs once before the workers start. RUN_ID tags the files a run writes to reports/ (see
+// tests/security.spec.ts) so the export scripts can leave out results of earlier runs; the workers
+// inherit it through the environment.
+export default function globalSetup(): void {
+  process.env.RUN_ID ||= new Date().toISOString();
+}
@@ -0,0 +1,43 @@
+import { test, expect } from './fixtures';
+import { BasePage } from '../pages';
+import { keyboardPages } from '../config/keyboard';
+import { pageAnnotation } from '../utils/dashboard';
+import { checkMenus, checkSkipLink, checkToggles, focusOrderMarkdown, focusOrderScreenshot, tabKey, walkFocusOrder } from '../utils/keyboard';
+import { logResult } from '../utils/logger';
+
+// Keyboard-only use of one page of each type: the Tab order (attached as a focus-order map), focus
+// indicators, keyboard traps, the skip link, submenus and [aria-expanded] toggles. Rules and severities
+// are in config/keyboard.ts.
+test.describe('Keyboard navigation', () => {
+  test.skip(({ device }) => device.formFactor !== 'desktop', 'Keyboard navigation is checked on desktop devices');
+
+  for (const sitePage of keyboardPages()) {
+    test(`${sitePage.id} should be usable with the keyboard alone`, { tag: '@accessibility', ...pageAnnotation(sitePage) }, async ({ page, browserName }, testInfo) => {
+      test.slow();
+      const tab = tabKey(browserName);
+      await page.goto(sitePage.path);
+      await new BasePage(page).waitForPageLoad();
+
+      const map = await walkFocusOrder(page, sitePage.id, tab);
+      await testInfo.attach('focus-order.json', { body: JSON.stringify(map, null, 2), contentType: 'application/json' });
+      await testInfo.attach('focus-order.md', { body: focusOrderMarkdown(map), contentType: 'text/markdown' });
+      await testInfo.attach('focus-order.png', { body: await focusOrderScreenshot(page, map), contentType: 'image/png' });
+      if (map.end === 'max-tabs') {
+        await logResult(`${sitePage.id}: still inside the page after ${map.stops.length} Tab stop(s)`, 'info');
+      }
+
+      const issues = [
+        ...map.issues,
+        ...await checkSkipLink(page, tab),
+        ...await checkMenus(page, tab),
+        ...await checkToggles(page)
+      ];
+      for (const issue of issues.filter(issue => issue.severity === 'warning')) {
+        await logResult(`${sitePage.id}: [${issue.check}] ${issue.message}`, 'warning', { page: map.url, evidence: issue.evidence });
+      }
+
+      const errors = issues.filter(issue => issue.severity === 'error').map(issue => `[${issue.check}] ${issue.message}`);
+      expect(errors, `${sitePage.id} keyboard errors:\n${errors.join('\n')}`).toEqual([]);
+    });
+  }
+});
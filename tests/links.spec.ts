@@ -0,0 +1,30 @@
+import * as fs from 'fs';
+import { test, expect } from './fixtures';
+import { LINK_CHECK } from '../config/link-check';
+import { sitePage } from '../config/site-map';
+import { crawlLinks } from '../utils/link-checker';
+import { renderLinkReportHtml } from '../utils/link-report';
+
+// Time left after the crawl for the last status checks
+const CHECK_MARGIN = 5 * 60000;
+
+test.describe('Link integrity', () => {
+  test('should have no broken links reachable from the home page', async ({ page, request }, testInfo) => {
+    // The crawl stops taking new pages after LINK_TIME_LIMIT; the rest is for checking the links found
+    test.setTimeout(LINK_CHECK.timeLimit + CHECK_MARGIN);
+
+    const report = await crawlLinks(page, request, sitePage('home').path, LINK_CHECK);
+
+    const jsonPath = testInfo.outputPath('link-report.json');
+    const htmlPath = testInfo.outputPath('link-report.html');
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+    fs.writeFileSync(htmlPath, renderLinkReportHtml(report));
+    await testInfo.attach('link-report.json', { path: jsonPath, contentType: 'application/json' });
+    await testInfo.attach('link-report.html', { path: htmlPath, contentType: 'text/html' });
+
+    const summary = report.broken
+      .map(link => `${link.status || link.error} ${link.url}\n    found on ${[...new Set(link.foundOn.map(source => source.page))].join(', ')}`)
+      .join('\n');
+    expect(report.broken, `Broken links (full report: ${htmlPath}):\n${summary}`).toHaveLength(0);
+  });
+});
@@ -0,0 +1,43 @@
+import { test, expect } from './fixtures';
+import { LOAD_OPTIONS, loadJourneys } from '../config/load';
+import { PERFORMANCE_HISTORY_PATH } from '../config/performance';
+import { formatLoadSummary, runLoadSimulation } from '../utils/load';
+import { appendPerformanceRecord, viewportName } from '../utils/performance-history';
+import { projectMetadata } from '../utils/devices';
+import { logResult } from '../utils/logger';
+
+// Virtual users browsing home → category → article → contact at the same time (config/load.ts).
+// Left out of normal runs: it only loads a live site when asked to with LOAD=1 (`npm run test:load`).
+// Run it offline against the snapshot server with TEST_ENV=local.
+test.describe('Load simulation', () => {
+  test(`should serve ${LOAD_OPTIONS.users} concurrent users`, { tag: '@load' }, async ({ browser, browserName, baseURL }, testInfo) => {
+    const environment = projectMetadata(testInfo.project).environment;
+    test.skip(!LOAD_OPTIONS.enabled && environment !== 'local', 'Load simulation against a live site needs LOAD=1');
+    test.setTimeout(LOAD_OPTIONS.rampUp + LOAD_OPTIONS.duration + 2 * LOAD_OPTIONS.navigationTimeout + 60000);
+    expect(baseURL, 'The project has no baseURL').toBeTruthy();
+
+    const summary = await runLoadSimulation(browser, baseURL!, loadJourneys(), LOAD_OPTIONS);
+    await testInfo.attach('load-summary.json', { body: JSON.stringify(summary, null, 2), contentType: 'application/json' });
+    await logResult(formatLoadSummary(summary), 'info');
+
+    // Keyed by the number of users, so only runs of the same size are compared
+    appendPerformanceRecord(PERFORMANCE_HISTORY_PATH, {
+      environment,
+      page: `load-${LOAD_OPTIONS.users}-users`,
+      browser: browserName,
+      viewport: viewportName(null),
+      metrics: {
+        pageP95: summary.pages.latency.p95,
+        requestP95: summary.requests.latency.p95,
+        requestErrorRate: summary.requests.errorRate
+      },
+      retry: testInfo.retry
+    });
+
+    const failures = summary.failures.join('\n');
+    expect(summary.pages.total, 'No page was loaded').toBeGreaterThan(0);
+    expect(summary.requests.errorRate, `Request error rate over ${LOAD_OPTIONS.maxErrorRate}:\n${failures}`).toBeLessThanOrEqual(LOAD_OPTIONS.maxErrorRate);
+    expect(summary.pages.failed, `Failed page loads:\n${failures}`).toBe(0);
+    expect(summary.pages.latency.p95, 'p95 page load time (ms)').toBeLessThanOrEqual(LOAD_OPTIONS.maxStepP95);
+  });
+});
@@ -0,0 +1,113 @@
+import { test, expect } from './fixtures';
+import { BasePage, MobileMenu } from '../pages';
+import { MOBILE_MENU } from '../config/mobile-menu';
+import { logResult } from '../utils/logger';
+
+// The collapsed header menu on phones and tablets: opening and closing it, every category in it,
+// touch target sizes and keyboard focus while it is open
+test.describe('Mobile navigation menu', () => {
+  test.skip(({ device }) => device.formFactor === 'desktop', 'The menu only collapses on phones and tablets');
+
+  let basePage: BasePage;
+  let menu: MobileMenu;
+
+  test.beforeEach(async ({ page, device }) => {
+    basePage = new BasePage(page);
+    menu = basePage.mobileMenu;
+    await page.goto(MOBILE_MENU.startPage.path);
+    await basePage.waitForPageLoad();
+
+    // Wider tablets may have room for the full menu
+    if (device.formFactor === 'tablet') {
+      test.skip(!await menu.toggle.isVisible(), `The menu is not collapsed on ${device.name}`);
+    }
+    await expect(menu.toggle, 'Hamburger menu toggle').toBeVisible();
+  });
+
+  test('should open and close the menu', async () => {
+    expect(await menu.isOpen(), 'Menu should start closed').toBe(false);
+
+    await menu.open();
+    await expect(menu.links.first()).toBeVisible();
+
+    await menu.close();
+    expect(await menu.isOpen(), 'Menu should close again').toBe(false);
+  });
+
+  for (const item of MOBILE_MENU.items) {
+    test(`should open ${item.label} from the menu`, async ({ page, device }) => {
+      await menu.open();
+      await menu.expandSubmenus();
+
+      const link = menu.item(item.label);
+      await expect(link, `${item.label} in the menu`).toBeVisible();
+      await (device.touch ? link.tap() : link.click());
+
+      await page.waitForURL(url => url.pathname === item.page.path);
+      await expect(page).toHaveTitle(item.page.title);
+      await basePage.waitForPageLoad();
+      expect(await menu.isOpen(), 'Menu should be closed after navigating').toBe(false);
+    });
+  }
+
+  test('should open every menu link without errors', async ({ page }) => {
+    test.slow();
+    await menu.open();
+    await menu.expandSubmenus();
+    const hrefs = await menu.internalLinks();
+    expect(hrefs.length).toBeGreaterThan(0);
+
+    const broken: string[] = [];
+    for (const href of hrefs) {
+      await page.goto(MOBILE_MENU.startPage.path);
+      await menu.open();
+      await menu.expandSubmenus();
+      // The document response after any redirects
+      const navigation = page.waitForResponse(response => response.request().isNavigationRequest()
+        && response.request().frame() === page.mainFrame() && (response.status() < 300 || response.status() >= 400));
+      await menu.links.and(page.locator(`a[href="${href}"], a[href="${new URL(href).pathname}"]`)).first().click();
+      const response = await navigation;
+      await basePage.waitForPageLoad();
+
+      if (!response.ok()) {
+        broken.push(`${response.status()} ${href}`);
+      }
+      if (await menu.isOpen()) {
+        broken.push(`menu still open on ${href}`);
+      }
+    }
+    expect(broken, broken.join('\n')).toEqual([]);
+  });
+
+  test(`should have touch targets of at least ${MOBILE_MENU.minTargetSize}px`, async ({ page }) => {
+    await menu.open();
+    await menu.expandSubmenus();
+    const targets = await menu.touchTargets();
+    const size = (target: { width: number; height: number }) => Math.min(target.width, target.height);
+
+    for (const target of targets.filter(target => size(target) >= MOBILE_MENU.minTargetSize && size(target) < MOBILE_MENU.recommendedTargetSize)) {
+      await logResult(`Menu target "${target.label}" is ${target.width}x${target.height}px, below the recommended ${MOBILE_MENU.recommendedTargetSize}px`,
+        'warning', { page: page.url() });
+    }
+
+    const tooSmall = targets.filter(target => size(target) < MOBILE_MENU.minTargetSize).map(target => `"${target.label}" ${target.width}x${target.height}px`);
+    expect(tooSmall, `Menu targets below ${MOBILE_MENU.minTargetSize}px:\n${tooSmall.join('\n')}`).toEqual([]);
+  });
+
+  test('should keep keyboard focus inside the open menu', async ({ page }) => {
+    await menu.toggle.focus();
+    await page.keyboard.press('Enter');
+    await menu.links.first().waitFor({ state: 'visible' });
+
+    // One full round through the menu and back to the start
+    const presses = await menu.focusableCount() + 2;
+    const escaped: number[] = [];
+    for (let i = 1; i <= presses; i++) {
+      await page.keyboard.press('Tab');
+      if (!await menu.hasFocus()) {
+        escaped.push(i);
+      }
+    }
+    expect(escaped, `Focus left the open menu after Tab press(es) ${escaped.join(', ')}`).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { test, expect } from './fixtures';
+import { CATEGORIES, pagesOfKind } from '../config/site-map';
+import { duplicateArticles, listingPageNumber } from '../utils/pagination';
+import { CATEGORY_HOOKS } from './category-hooks';
+
+// Follows "Older Posts" through every page of each category archive and checks the listing as a whole
+for (const category of pagesOfKind('category')) {
+  const slug = category.categories[0];
+  const name = CATEGORIES[slug];
+
+  test.describe(`Pagination: ${name}`, () => {
+    // The first test in a worker pays for the whole crawl
+    test.slow();
+
+    test('should list every article exactly once across pages', async ({ categoryInventory }, testInfo) => {
+      const inventory = await categoryInventory(slug);
+      await testInfo.attach(`${slug}-inventory.json`, {
+        body: JSON.stringify(inventory, null, 2),
+        contentType: 'application/json'
+      });
+
+      expect(inventory.articles.length).toBeGreaterThan(0);
+      for (const listingPage of inventory.pages) {
+        expect(listingPage.articles.length, `page ${listingPage.number} has no articles`).toBeGreaterThan(0);
+      }
+      expect(duplicateArticles(inventory)).toEqual({});
+    });
+
+    test('should number listing pages contiguously', async ({ categoryInventory }) => {
+      const { pages } = await categoryInventory(slug);
+      const expected = pages.map((_, index) => index + 1);
+
+      expect(pages.map(listingPage => listingPage.number)).toEqual(expected);
+      if (CATEGORY_HOOKS[slug].paginated) {
+        expect(pages.length).toBeGreaterThan(1);
+      }
+
+      // Numbered links (when the theme shows them) never point past the last page and reach every page
+      const linked = [...new Set(pages.flatMap(listingPage => listingPage.linkedNumbers))].sort((a, b) => a - b);
+      if (linked.length > 0) {
+        expect(linked).toEqual(expected);
+      }
+    });
+
+    test('should link Older Posts and Newer Posts symmetrically', async ({ categoryInventory }) => {
+      const { pages } = await categoryInventory(slug);
+
+      expect(pages[0].newerPath, 'first page has Newer Posts').toBeUndefined();
+      expect(pages[pages.length - 1].olderPath, 'last page has Older Posts').toBeUndefined();
+
+      for (let i = 0; i + 1 < pages.length; i++) {
+        expect(pages[i].olderPath, `Older Posts on page ${pages[i].number}`).toBe(pages[i + 1].path);
+        expect(pages[i + 1].newerPath && listingPageNumber(pages[i + 1].newerPath!), `Newer Posts on page ${pages[i + 1].number}`)
+          .toBe(pages[i].number);
+      }
+    });
+
+    test('should keep every listing page inside the category archive', async ({ categoryInventory }) => {
+      const { pages } = await categoryInventory(slug);
+
+      for (const listingPage of pages) {
+        expect(listingPage.path).toContain(category.path);
+      }
+    });
+  });
+}
@@ -0,0 +1,34 @@
+import { test, expect } from './fixtures';
+import { PERFORMANCE_HISTORY_PATH, performanceBudget } from '../config/performance';
+import { SITE_MAP } from '../config/site-map';
+import { checkBudget, describeMetrics, formatViolation, measurePagePerformance } from '../utils/performance';
+import { appendPerformanceRecord, viewportName } from '../utils/performance-history';
+import { projectMetadata } from '../utils/devices';
+import { pageAnnotation } from '../utils/dashboard';
+import { logResult } from '../utils/logger';
+
+// Core Web Vitals and transfer totals of every page in the site map, checked against the budget for
+// its page type and the device in config/performance.ts. Every measurement is added to the history
+// compared by `npm run perf:compare`.
+test.describe('Performance budgets', () => {
+  for (const sitePage of SITE_MAP) {
+    test(`${sitePage.id} should stay within the ${sitePage.kind} performance budget`, { tag: '@performance', ...pageAnnotation(sitePage) }, async ({ page, browserName, device }, testInfo) => {
+      const budget = performanceBudget(sitePage.kind, device);
+      const metrics = await measurePagePerformance(page, sitePage.path);
+
+      await testInfo.attach('web-vitals.json', { body: JSON.stringify({ metrics, budget }, null, 2), contentType: 'application/json' });
+      await logResult(`${sitePage.id}: ${describeMetrics(metrics)}`, 'info');
+      appendPerformanceRecord(PERFORMANCE_HISTORY_PATH, {
+        environment: projectMetadata(testInfo.project).environment,
+        page: sitePage.id,
+        browser: browserName,
+        viewport: viewportName(page.viewportSize()),
+        metrics,
+        retry: testInfo.retry
+      });
+
+      const violations = checkBudget(metrics, budget).map(formatViolation);
+      expect(violations, `${sitePage.id} is over its ${sitePage.kind} budget:\n${violations.join('\n')}`).toEqual([]);
+    });
+  }
+});
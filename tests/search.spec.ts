@@ -0,0 +1,69 @@
+import { test, expect } from './fixtures';
+import { SearchResultsPage } from '../pages';
+import { SEARCH_QUERIES, queryTerms } from '../config/search';
+import { sitePage } from '../config/site-map';
+
+// Runs each query in config/search.ts through the site's search box and checks the results page
+for (const search of SEARCH_QUERIES) {
+  test.describe(`Search: ${search.query}`, () => {
+    let searchPage: SearchResultsPage;
+
+    test.beforeEach(async ({ page }) => {
+      searchPage = new SearchResultsPage(page);
+      await page.goto(sitePage('home').path);
+      await searchPage.waitForPageLoad();
+      await searchPage.search(search.query);
+    });
+
+    test('should open the results page for the query', async ({ page }) => {
+      expect(searchPage.query).toBe(search.query);
+      await expect(page.getByText(/page not found|critical error/i)).toHaveCount(0);
+    });
+
+    if (search.expect === 'results') {
+      test(`should list at least ${search.minResults ?? 1} matching result(s)`, async () => {
+        const results = await searchPage.results();
+        expect(results.length).toBeGreaterThanOrEqual(search.minResults ?? 1);
+        await expect(searchPage.emptyState).toHaveCount(0);
+
+        // WordPress also matches the article body, so the excerpt may carry the term instead of the title
+        const terms = queryTerms(search);
+        const matches = (text: string) => terms.some(term => text.toLowerCase().includes(term));
+        const unrelated = results.filter(result => !matches(`${result.title} ${result.excerpt}`)).map(result => result.title);
+        expect(unrelated, `Results without ${terms.join('/')}`).toEqual([]);
+        expect(results.some(result => matches(result.title)), 'At least one result title should contain the query').toBeTruthy();
+      });
+    }
+
+    if (search.expect === 'empty') {
+      test('should show the no-results message', async () => {
+        await expect(searchPage.emptyState).toBeVisible();
+        expect(await searchPage.results()).toHaveLength(0);
+      });
+    }
+
+    if (search.expect === 'any') {
+      test('should show either results or the no-results message', async () => {
+        const results = await searchPage.results();
+        if (results.length === 0) {
+          await expect(searchPage.emptyState).toBeVisible();
+        }
+      });
+    }
+
+    if (search.paginated) {
+      test('should paginate the results', async ({ page }) => {
+        expect(await searchPage.paginationNumbers()).toContain(2);
+        const firstPage = (await searchPage.results()).map(result => result.title);
+
+        await page.goto(SearchResultsPage.path(search.query, 2));
+        await searchPage.waitForPageLoad();
+        expect(searchPage.query).toBe(search.query);
+
+        const secondPage = (await searchPage.results()).map(result => result.title);
+        expect(secondPage.length).toBeGreaterThan(0);
+        expect(secondPage.filter(title => firstPage.includes(title)), 'Results repeated from page 1').toEqual([]);
+      });
+    }
+  });
+}
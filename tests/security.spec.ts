@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect } from './fixtures';
+import { SITE_MAP } from '../config/site-map';
+import { SECURITY_POLICY, SECURITY_REPORT_DIR } from '../config/security';
+import { auditSecurity, collectSecurityData, describeSecurityIssue } from '../utils/security';
+import { projectMetadata } from '../utils/devices';
+import { logResult } from '../utils/logger';
+
+// Security headers, CSP, HSTS, cookies, mixed content and version leakage of every page in the site
+// map against config/security.ts. Each page's results are written to reports/security/, tagged with
+// the run id, for scripts/export-security-review.ts.
+test.describe('Security', () => {
+  for (const sitePage of SITE_MAP) {
+    test(`${sitePage.id} should meet the security policy`, { tag: '@security' }, async ({ page }, testInfo) => {
+      const data = await collectSecurityData(page, sitePage.path);
+      const audit = auditSecurity(sitePage.id, data, SECURITY_POLICY);
+
+      const body = JSON.stringify(audit, null, 2);
+      await testInfo.attach('security.json', { body, contentType: 'application/json' });
+      // One file per environment and page; the spec only runs on the first device
+      const fileName = [projectMetadata(testInfo.project).environment, sitePage.id].filter(Boolean).join('-');
+      fs.mkdirSync(SECURITY_REPORT_DIR, { recursive: true });
+      fs.writeFileSync(path.join(SECURITY_REPORT_DIR, `${fileName}.json`), JSON.stringify({ ...audit, runId: process.env.RUN_ID }, null, 2));
+
+      for (const issue of audit.issues.filter(issue => issue.severity === 'warning')) {
+        await logResult(`${sitePage.id}: ${describeSecurityIssue(issue)}`, 'warning', { page: audit.url, evidence: issue.evidence });
+      }
+
+      const errors = audit.issues.filter(issue => issue.severity === 'error').map(describeSecurityIssue);
+      expect(errors, `${sitePage.id} security errors:\n${errors.join('\n')}`).toEqual([]);
+    });
+  }
+});
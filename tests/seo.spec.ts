@@ -0,0 +1,39 @@
+import { test, expect } from './fixtures';
+import { SITE_MAP } from '../config/site-map';
+import { pageAnnotation } from '../utils/dashboard';
+import { auditSeo, describeSeoIssue, extractSeoData, findDuplicateMeta } from '../utils/seo';
+import { logResult } from '../utils/logger';
+
+// SEO audit of every page in the site map against the rules in config/seo.ts, plus duplicate titles
+// and descriptions across pages.
+test.describe('SEO', () => {
+  for (const sitePage of SITE_MAP) {
+    test(`${sitePage.id} should pass the SEO audit`, { tag: '@seo', ...pageAnnotation(sitePage) }, async ({ page }, testInfo) => {
+      await page.goto(sitePage.path);
+      const data = await extractSeoData(page);
+      const issues = auditSeo(data, sitePage.kind);
+
+      await testInfo.attach('seo.json', { body: JSON.stringify({ data, issues }, null, 2), contentType: 'application/json' });
+      for (const issue of issues.filter(issue => issue.severity === 'warning')) {
+        await logResult(`${sitePage.id}: ${describeSeoIssue(issue)}`, 'warning', { page: data.url, evidence: issue.evidence });
+      }
+
+      const errors = issues.filter(issue => issue.severity === 'error').map(describeSeoIssue);
+      expect(errors, `${sitePage.id} SEO errors:\n${errors.join('\n')}`).toEqual([]);
+    });
+  }
+
+  test('should not repeat titles or meta descriptions across pages', async ({ page }) => {
+    test.slow();
+
+    const pages = [];
+    for (const sitePage of SITE_MAP) {
+      await page.goto(sitePage.path, { waitUntil: 'domcontentloaded' });
+      const data = await extractSeoData(page);
+      pages.push({ id: sitePage.id, title: data.title, description: data.description });
+    }
+
+    const duplicates = findDuplicateMeta(pages).map(describeSeoIssue);
+    expect(duplicates, duplicates.join('\n')).toEqual([]);
+  });
+});
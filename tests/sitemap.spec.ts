@@ -0,0 +1,57 @@
+import { test, expect } from './fixtures';
+import { SITEMAP_CHECK } from '../config/sitemap';
+import { TIMEOUT } from '../config/environments';
+import { SITE_MAP, pagesOfKind } from '../config/site-map';
+import { mapWithConcurrency } from '../utils/link-checker';
+import { checkSitemapUrl, fetchSitemap, isAllowed, parseRobotsTxt, samePath } from '../utils/sitemap';
+import { logResult } from '../utils/logger';
+
+// Conformance of the WordPress sitemap and robots.txt with the pages this suite tests
+test.describe('sitemap.xml and robots.txt', () => {
+  test('robots.txt should not disallow any page under test', async ({ request }) => {
+    const response = await request.get('/robots.txt');
+    expect(response.status(), 'robots.txt should exist').toBe(200);
+    const robots = parseRobotsTxt(await response.text());
+
+    const blocked = SITE_MAP.flatMap(sitePage => SITEMAP_CHECK.userAgents
+      .filter(agent => !isAllowed(robots, sitePage.path, agent))
+      .map(agent => `${sitePage.path} (${agent})`));
+    expect(blocked, `Disallowed by robots.txt:\n${blocked.join('\n')}`).toEqual([]);
+
+    if (robots.sitemaps.length === 0) {
+      await logResult('robots.txt does not declare a Sitemap', 'warning', { page: '/robots.txt' });
+    }
+  });
+
+  test('sitemap should list every category and article in the site map', async ({ request }) => {
+    const sitemap = await fetchSitemap(request, SITEMAP_CHECK);
+    await logResult(`${sitemap.root}: ${sitemap.urls.length} URLs in ${sitemap.children.length} child sitemap(s)`, 'info');
+
+    const missing = [...pagesOfKind('category'), ...pagesOfKind('article')]
+      .filter(sitePage => !sitemap.urls.some(url => samePath(url, sitePage.path)))
+      .map(sitePage => `${sitePage.id} (${sitePage.path})`);
+    expect(missing, `Not in ${sitemap.root}:\n${missing.join('\n')}`).toEqual([]);
+  });
+
+  test('every sitemap URL should return 200 and be its own canonical', async ({ request }, testInfo) => {
+    // Each batch of SITEMAP_CONCURRENCY requests may take up to the request timeout, plus fetching the sitemap
+    test.setTimeout(Math.ceil(SITEMAP_CHECK.maxUrls / SITEMAP_CHECK.concurrency) * SITEMAP_CHECK.requestTimeout + TIMEOUT.LONG);
+
+    const sitemap = await fetchSitemap(request, SITEMAP_CHECK);
+    const urls = [...new Set(sitemap.urls)];
+    if (urls.length > SITEMAP_CHECK.maxUrls) {
+      await logResult(`Checking the first ${SITEMAP_CHECK.maxUrls} of ${urls.length} sitemap URLs (SITEMAP_MAX_URLS)`, 'warning');
+    }
+
+    const results = await mapWithConcurrency(urls.slice(0, SITEMAP_CHECK.maxUrls), SITEMAP_CHECK.concurrency,
+      url => checkSitemapUrl(request, url, SITEMAP_CHECK));
+    await testInfo.attach('sitemap-urls.json', { body: JSON.stringify(results, null, 2), contentType: 'application/json' });
+
+    const problems = results
+      .filter(result => result.status !== 200 || !result.canonical || !samePath(result.canonical, result.url))
+      .map(result => result.status !== 200
+        ? `${result.status || result.error} ${result.url}`
+        : `${result.url} has canonical ${result.canonical || '(none)'}`);
+    expect(problems, problems.join('\n')).toEqual([]);
+  });
+});
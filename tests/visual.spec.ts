@@ -0,0 +1,40 @@
+import { test, expect } from './fixtures';
+import { BasePage } from '../pages';
+import { SITE_MAP } from '../config/site-map';
+import { VIEWPORTS } from '../config/viewports';
+import { visualSettings } from '../config/visual';
+
+// Full-page screenshot of every page in the site map at each viewport, compared with the baselines
+// in tests/__screenshots__/ (one set per platform and project). Update them with
+// `npm run test:visual:update` after an intended design change.
+test.describe('Visual regression', () => {
+  // The spec sets its own viewports, so one device per browser is enough
+  test.skip(({ device }) => device.formFactor !== 'desktop', 'Runs on the desktop devices only');
+
+  for (const sitePage of SITE_MAP) {
+    const settings = visualSettings(sitePage);
+
+    for (const viewport of VIEWPORTS) {
+      test(`${sitePage.id} should match the ${viewport.name} baseline`, async ({ page }) => {
+        await page.setViewportSize({ width: viewport.width, height: viewport.height });
+        await page.goto(sitePage.path);
+
+        // Scroll through once so lazy-loaded images are in place before the full-page capture
+        const basePage = new BasePage(page);
+        await basePage.waitForPageLoad();
+        await basePage.scrollToBottom();
+        await page.evaluate(() => window.scrollTo(0, 0));
+        await basePage.waitForPageLoad();
+
+        await expect(page).toHaveScreenshot(`${sitePage.id}-${viewport.name.toLowerCase()}.png`, {
+          fullPage: settings.fullPage,
+          mask: settings.mask.map(selector => page.locator(selector)),
+          maxDiffPixelRatio: settings.maxDiffPixelRatio,
+          threshold: settings.threshold,
+          animations: 'disabled',
+          caret: 'hide'
+        });
+      });
+    }
+  }
+});
@@ -0,0 +1,95 @@
+import { Page, TestInfo } from '@playwright/test';
+import AxeBuilder from '@axe-core/playwright';
+import { AccessibilityBaseline, BaselineEntry, WCAG_TAGS, baselineEntry } from '../config/accessibility';
+import { TIMEOUT } from '../config/environments';
+import { logResult } from './logger';
+
+// axe-core result type, taken from the builder so axe-core needn't be a direct dependency
+type Result = Awaited<ReturnType<AxeBuilder['analyze']>>['violations'][number];
+
+// Element screenshots attached per violated rule
+const SCREENSHOTS_PER_RULE = 3;
+
+export interface BaselinedViolation {
+  violation: Result;
+  entry: BaselineEntry;
+}
+
+export interface AccessibilityAudit {
+  pageId: string;
+  url: string;
+  // Violations that fail the test
+  blocking: Result[];
+  // Violations accepted by the baseline
+  baselined: BaselinedViolation[];
+}
+
+export function describeViolation(violation: Result): string {
+  return `${violation.id} (${violation.impact || 'unknown impact'}): ${violation.help} - ${violation.nodes.length} element(s)\n    ${violation.helpUrl}`;
+}
+
+function violationMarkdown(audit: AccessibilityAudit): string {
+  const section = (violation: Result, note?: string) => [
+    `### ${violation.id} - ${violation.help}`,
+    `Impact: ${violation.impact || 'unknown'}. ${violation.helpUrl}`,
+    note ? `Baselined: ${note}` : '',
+    ...violation.nodes.map(node => `- \`${node.target.join(' ')}\`\n  ${(node.failureSummary || '').replace(/\n/g, '\n  ')}`)
+  ].filter(Boolean).join('\n');
+
+  return [
+    `# Accessibility audit: ${audit.pageId}`,
+    audit.url,
+    `## Blocking (${audit.blocking.length})`,
+    ...audit.blocking.map(violation => section(violation)),
+    `## Baselined (${audit.baselined.length})`,
+    ...audit.baselined.map(({ violation, entry }) => section(violation, entry.reason))
+  ].join('\n\n');
+}
+
+async function attachElementScreenshots(page: Page, testInfo: TestInfo, violation: Result): Promise<void> {
+  const nodes = violation.nodes.filter(node => node.target.length === 1).slice(0, SCREENSHOTS_PER_RULE);
+
+  for (const [index, node] of nodes.entries()) {
+    // Targets inside iframes or shadow roots have several parts and can't be located directly
+    const selector = String(node.target[0]);
+    try {
+      const body = await page.locator(selector).first().screenshot({ timeout: TIMEOUT.SHORT, animations: 'disabled' });
+      await testInfo.attach(`${violation.id}-${index + 1}.png`, { body, contentType: 'image/png' });
+    } catch {
+      // Hidden or detached elements can't be captured; the markdown still names them
+    }
+  }
+}
+
+// Runs axe-core with the WCAG 2.1 AA rules on the current page and splits the violations
+// into blocking and baselined ones. Details and element screenshots are attached to the test.
+export async function auditAccessibility(page: Page, pageId: string, baseline: AccessibilityBaseline, testInfo: TestInfo): Promise<AccessibilityAudit> {
+  const results = await new AxeBuilder({ page }).withTags(WCAG_TAGS).analyze();
+  const audit: AccessibilityAudit = { pageId, url: page.url(), blocking: [], baselined: [] };
+
+  for (const violation of results.violations) {
+    const entry = baselineEntry(baseline, violation.id, pageId);
+    if (entry && (entry.maxNodes === undefined || violation.nodes.length <= entry.maxNodes)) {
+      audit.baselined.push({ violation, entry });
+    } else {
+      audit.blocking.push(violation);
+    }
+  }
+
+  // Baseline entries that no longer match anything can be removed
+  for (const [rule, entry] of Object.entries(baseline.rules)) {
+    if (baselineEntry(baseline, rule, pageId) && !results.violations.some(violation => violation.id === rule)) {
+      await logResult(`${pageId}: baselined rule "${rule}" no longer fails (${entry.reason})`, 'info');
+    }
+  }
+
+  await testInfo.attach('accessibility-violations.md', { body: violationMarkdown(audit), contentType: 'text/markdown' });
+  await testInfo.attach('axe-results.json', { body: JSON.stringify(results.violations, null, 2), contentType: 'application/json' });
+  for (const violation of [...audit.blocking, ...audit.baselined.map(({ violation }) => violation)]) {
+    await attachElementScreenshots(page, testInfo, violation);
+  }
+
+  await logResult(`${pageId}: ${audit.blocking.length} blocking, ${audit.baselined.length} baselined accessibility violation(s)`,
+    audit.blocking.length > 0 ? 'warning' : 'success');
+  return audit;
+}
@@ -0,0 +1,20 @@
+import { Locator, Page } from '@playwright/test';
+
+// First element matching the candidate selectors, tried in order; null when none is on the page
+export async function findRegion(page: Page, selectors: string[]): Promise<Locator | null> {
+  for (const selector of selectors) {
+    const region = page.locator(selector).first();
+    if (await region.count() > 0) {
+      return region;
+    }
+  }
+  return null;
+}
+
+// Heading lines of an ARIA snapshot, e.g. `- heading "Pet Insurance" [level=1]`, indented by level
+export function headingOutline(snapshot: string): string[] {
+  return snapshot.split('\n')
+    .map(line => line.match(/- heading "(.*)" \[level=(\d)\]/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(([, name, level]) => `${'  '.repeat(Number(level) - 1)}h${level} ${name}`);
+}
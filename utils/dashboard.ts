@@ -0,0 +1,155 @@
+import type { TestDetails } from '@playwright/test';
+import { DEVICE_MATRIX } from '../config/devices';
+import { CATEGORIES, CategorySlug, SITE_MAP, SitePage } from '../config/site-map';
+import { escapeHtml } from './link-report';
+
+// Columns of the content QA dashboard (reporters/dashboard.ts), split per device when several
+// devices ran. A test shows up in the dashboard when it carries the page annotation and one of the
+// area tags, e.g.
+//   test('should mention brand names', { tag: '@content' }, ...) inside
+//   test.describe('Article: food', pageAnnotation(article), ...)
+export const CHECK_AREAS = ['content', 'seo', 'accessibility', 'performance'] as const;
+export type CheckArea = typeof CHECK_AREAS[number];
+
+export const PAGE_ANNOTATION = 'page';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface DashboardCheck {
+  pageId: string;
+  area: CheckArea;
+  title: string;
+  environment: string;
+  // Device matrix name (config/devices.ts), empty for projects without one
+  device: string;
+  status: CheckStatus;
+  // First line of the error for failed checks, warning messages for the others
+  notes: string[];
+}
+
+export function pageAnnotation(page: SitePage): TestDetails {
+  return { annotation: { type: PAGE_ANNOTATION, description: page.id } };
+}
+
+const STATUS_ORDER: CheckStatus[] = ['fail', 'warn', 'pass', 'skip'];
+const STATUS_ICONS: Record<CheckStatus, string> = { pass: '✓', warn: '⚠', fail: '✗', skip: '–' };
+
+// The worst status wins: one failed check fails the cell
+function worstStatus(checks: DashboardCheck[]): CheckStatus | undefined {
+  return STATUS_ORDER.find(status => checks.some(check => check.status === status));
+}
+
+function checkItem(check: DashboardCheck, showEnvironment: boolean): string {
+  const notes = check.notes.length > 0
+    ? `<ul class="notes">${check.notes.map(note => `<li>${escapeHtml(note)}</li>`).join('')}</ul>`
+    : '';
+  return `<li class="${check.status}">${STATUS_ICONS[check.status]} ${showEnvironment ? `[${escapeHtml(check.environment)}] ` : ''}${escapeHtml(check.title)}${notes}</li>`;
+}
+
+function cell(checks: DashboardCheck[], showEnvironment: boolean): string {
+  const status = worstStatus(checks);
+  if (!status) {
+    return '<td class="none">not checked</td>';
+  }
+  const passed = checks.filter(check => check.status === 'pass').length;
+  return `<td class="${status}"><details${status === 'fail' ? ' open' : ''}>
+  <summary>${STATUS_ICONS[status]} ${passed}/${checks.length} passed</summary>
+  <ul>${checks.map(check => checkItem(check, showEnvironment)).join('')}</ul>
+</details></td>`;
+}
+
+function pageRow(page: SitePage, checks: DashboardCheck[], devices: string[], showEnvironment: boolean): string {
+  const cells = CHECK_AREAS.flatMap(area => devices.map(device =>
+    cell(checks.filter(check => check.area === area && check.device === device), showEnvironment))).join('\n  ');
+  return `<tr>
+  <th scope="row">${escapeHtml(page.id)}<br><small>${escapeHtml(page.path)}</small></th>
+  ${cells}
+</tr>`;
+}
+
+// Site pages first, then each category listing followed by its articles. An article in several
+// categories is listed under each of them.
+function pageGroups(): { name: string; pages: SitePage[] }[] {
+  const site = SITE_MAP.filter(page => page.kind === 'home' || page.kind === 'static');
+  const categories = (Object.keys(CATEGORIES) as CategorySlug[]).map(slug => ({
+    name: CATEGORIES[slug],
+    pages: SITE_MAP.filter(page => page.kind !== 'home' && page.kind !== 'static' && page.categories.includes(slug))
+      .sort((a, b) => Number(b.kind === 'category') - Number(a.kind === 'category'))
+  }));
+  return [{ name: 'Site pages', pages: site }, ...categories];
+}
+
+function areaName(area: CheckArea): string {
+  return area === 'seo' ? 'SEO' : area[0].toUpperCase() + area.slice(1);
+}
+
+// One header row of areas, plus a row of devices under each area when several devices ran
+function tableHead(devices: string[]): string {
+  if (devices.length === 1) {
+    return `<thead><tr><th>Page</th>${CHECK_AREAS.map(area => `<th>${areaName(area)}</th>`).join('')}</tr></thead>`;
+  }
+  return `<thead>
+<tr><th rowspan="2">Page</th>${CHECK_AREAS.map(area => `<th colspan="${devices.length}">${areaName(area)}</th>`).join('')}</tr>
+<tr>${CHECK_AREAS.map(() => devices.map(device => `<th class="device">${escapeHtml(device)}</th>`).join('')).join('')}</tr>
+</thead>`;
+}
+
+// Self-contained HTML dashboard: one row per page, one pass/warn/fail cell per check area and device
+export function renderDashboardHtml(checks: DashboardCheck[], generatedAt: string): string {
+  const showEnvironment = new Set(checks.map(check => check.environment)).size > 1;
+  const ranDevices = new Set(checks.map(check => check.device));
+  const matrixOrder = DEVICE_MATRIX.map(device => device.name);
+  const devices = ranDevices.size > 0
+    ? [...ranDevices].sort((a, b) => matrixOrder.indexOf(a) - matrixOrder.indexOf(b))
+    : [''];
+  const checkedPages = new Set(checks.map(check => check.pageId));
+  const totals = STATUS_ORDER.map(status => `<span class="${status}">${STATUS_ICONS[status]} ${checks.filter(check => check.status === status).length} ${status}</span>`).join('');
+
+  const sections = pageGroups()
+    .map(group => ({ ...group, pages: group.pages.filter(page => checkedPages.has(page.id)) }))
+    .filter(group => group.pages.length > 0)
+    .map(group => `<section>
+<h2>${escapeHtml(group.name)}</h2>
+<table>
+${tableHead(devices)}
+<tbody>
+${group.pages.map(page => pageRow(page, checks.filter(check => check.pageId === page.id), devices, showEnvironment)).join('\n')}
+</tbody>
+</table>
+</section>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Content QA dashboard</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+  th, td { border: 1px solid #ccc; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  thead th { background: #f3f3f3; }
+  thead th.device { font-weight: normal; font-size: 0.85em; }
+  th[scope="row"] { width: 16rem; font-weight: 600; }
+  th small { font-weight: normal; color: #666; }
+  td ul { margin: 0.4rem 0 0; padding-left: 1.2rem; }
+  ul.notes { color: #555; font-size: 0.9em; }
+  summary { cursor: pointer; }
+  .pass { background: #e8f5e9; }
+  .warn { background: #fff8e1; }
+  .fail { background: #ffebee; }
+  .skip, .none { background: #f5f5f5; color: #777; }
+  li.pass, li.warn, li.fail, li.skip { background: none; }
+  li.fail { color: #b71c1c; }
+  .summary span { margin-right: 1rem; padding: 0.2rem 0.5rem; border-radius: 4px; }
+</style>
+</head>
+<body>
+<h1>Content QA dashboard</h1>
+<p class="summary">${totals}</p>
+<p>${checkedPages.size} page(s) checked. Generated ${escapeHtml(generatedAt)}</p>
+${sections || '<p>No dashboard checks ran.</p>'}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,26 @@
+import { Page } from '@playwright/test';
+import { ProjectMetadata, Throttling } from '../config/devices';
+
+// Slows the page's CPU and network down as configured for the device (Chromium only)
+export async function applyThrottling(page: Page, throttling: Throttling): Promise<void> {
+  const session = await page.context().newCDPSession(page);
+  await session.send('Emulation.setCPUThrottlingRate', { rate: throttling.cpuSlowdown });
+  await session.send('Network.enable');
+  await session.send('Network.emulateNetworkConditions', {
+    offline: false,
+    latency: throttling.latency,
+    // Bytes per second
+    downloadThroughput: (throttling.downloadKbps * 1024) / 8,
+    uploadThroughput: (throttling.uploadKbps * 1024) / 8
+  });
+}
+
+// Environment and device of a project; projects configured outside playwright.config.ts fall back to
+// the project name
+export function projectMetadata(project: { name: string; metadata: unknown }): ProjectMetadata {
+  const metadata = (project.metadata || {}) as Partial<ProjectMetadata>;
+  return {
+    environment: metadata.environment || project.name,
+    device: metadata.device || ''
+  };
+}
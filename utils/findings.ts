@@ -0,0 +1,48 @@
+import { test, expect, TestInfo } from '@playwright/test';
+
+export type FindingLevel = 'info' | 'warning' | 'failure';
+
+// Audits that grade their rules as error or warning (SEO, security, keyboard) share one policy:
+// errors fail the test through expect, warnings are logged as findings so they are reported
+// without failing it.
+
+// Something a test noticed without it being a hard assertion, e.g. a missing H1
+export interface Finding {
+  level: FindingLevel;
+  message: string;
+  // Site map id or URL the finding is about
+  page?: string;
+  selector?: string;
+  // Whatever backs the finding up: counts, texts found, a snippet of markup
+  evidence?: unknown;
+}
+
+// Attachment name the soft-findings reporter looks for
+export const FINDING_ATTACHMENT = 'finding';
+
+// Findings can be recorded from shared helpers that also run outside a test (scripts, worker fixtures)
+function currentTestInfo(): TestInfo | undefined {
+  try {
+    return test.info();
+  } catch {
+    return undefined;
+  }
+}
+
+// Adds the finding to the running test as an annotation (shown in the HTML report) and a JSON
+// attachment (read by reporters/soft-findings.ts). A failure also fails the test, without
+// stopping it. Outside a test nothing is recorded.
+export async function recordFinding(finding: Finding): Promise<void> {
+  const testInfo = currentTestInfo();
+  if (!testInfo) {
+    return;
+  }
+
+  const where = [finding.page, finding.selector && `\`${finding.selector}\``].filter(Boolean).join(' ');
+  testInfo.annotations.push({ type: finding.level, description: where ? `${finding.message} (${where})` : finding.message });
+  await testInfo.attach(FINDING_ATTACHMENT, { body: JSON.stringify(finding), contentType: 'application/json' });
+
+  if (finding.level === 'failure') {
+    expect.soft(false, finding.message).toBeTruthy();
+  }
+}
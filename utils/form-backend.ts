@@ -0,0 +1,115 @@
+import { Page, Request, Route } from '@playwright/test';
+import { CONTACT_FORM_FIELDS } from '../pages/ContactPage';
+
+// Stand-in for the site's Contact Form 7 handler, so tests can submit the contact form without
+// anything reaching WordPress. Every other request from the page goes through untouched.
+
+export interface StubbedSubmission {
+  url: string;
+  method: string;
+  fields: Record<string, string>;
+}
+
+export type StubReply = Parameters<Route['fulfill']>[0];
+
+export type ContactForm7Status = 'mail_sent' | 'validation_failed' | 'mail_failed' | 'spam';
+
+export interface ContactForm7Reply {
+  status: ContactForm7Status;
+  message: string;
+  into: string;
+  invalid_fields: { field: string; message: string; idref: null; error_id: string }[];
+  posted_data_hash: string;
+}
+
+// Where Contact Form 7 posts a submission: /wp-json/contact-form-7/v1/contact-forms/<id>/feedback
+export const CONTACT_FORM_7_ENDPOINT = /\/wp-json\/contact-form-7\/v1\/contact-forms\/\d+\/feedback(?:[?#]|$)/;
+
+// Contact Form 7's own messages, so the page shows what it would show for a real reply
+export const CONTACT_FORM_7_MESSAGES: Record<ContactForm7Status | 'invalid_required' | 'invalid_email', string> = {
+  mail_sent: 'Thank you for your message. It has been sent.',
+  validation_failed: 'One or more fields have an error. Please check and try again.',
+  mail_failed: 'There was an error trying to send your message. Please try again later.',
+  spam: 'There was an error trying to send your message. Please try again later.',
+  invalid_required: 'Please fill out this field.',
+  invalid_email: 'Please enter an email address.'
+};
+
+// Same rule Contact Form 7 applies to [email] fields
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function parseMultipart(body: string, boundary: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const part of body.split(`--${boundary}`)) {
+    const match = part.match(/name="([^"]+)"(?:; filename="[^"]*")?\r?\n(?:[^\r\n]+\r?\n)*\r?\n([\s\S]*?)\r?\n$/);
+    if (match) {
+      fields[match[1]] = match[2];
+    }
+  }
+  return fields;
+}
+
+// Form fields of a urlencoded or multipart request body
+export function parseFormBody(request: Request): Record<string, string> {
+  const body = request.postData() || '';
+  const contentType = request.headers()['content-type'] || '';
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+  if (boundary) {
+    return parseMultipart(body, boundary[1] || boundary[2]);
+  }
+  if (contentType.includes('application/json')) {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return {};
+    }
+  }
+  return Object.fromEntries(new URLSearchParams(body));
+}
+
+// Answers every Contact Form 7 submission from the page with `reply` and returns the list they are
+// recorded in
+export async function stubFormBackend(page: Page, reply: (submission: StubbedSubmission) => StubReply): Promise<StubbedSubmission[]> {
+  const submissions: StubbedSubmission[] = [];
+  await page.route(CONTACT_FORM_7_ENDPOINT, async route => {
+    const request = route.request();
+    if (request.method() !== 'POST') {
+      await route.fallback();
+      return;
+    }
+
+    const submission = { url: request.url(), method: request.method(), fields: parseFormBody(request) };
+    submissions.push(submission);
+    await route.fulfill(reply(submission));
+  });
+  return submissions;
+}
+
+// Posted value of a contact form field, which Contact Form 7 names "your-<field>"
+export function postedValue(fields: Record<string, string>, name: string): string | undefined {
+  return fields[`your-${name}`] ?? fields[name];
+}
+
+// What the Contact Form 7 REST endpoint would answer: validation of the required and email
+// fields, then `status` for a valid submission
+export function contactForm7Reply(submission: StubbedSubmission, status: ContactForm7Status = 'mail_sent'): ContactForm7Reply {
+  const invalid: ContactForm7Reply['invalid_fields'] = [];
+  for (const field of CONTACT_FORM_FIELDS) {
+    const posted = Object.prototype.hasOwnProperty.call(submission.fields, `your-${field.name}`) ? `your-${field.name}` : field.name;
+    const value = (postedValue(submission.fields, field.name) || '').trim();
+    if (field.required && !value) {
+      invalid.push({ field: posted, message: CONTACT_FORM_7_MESSAGES.invalid_required, idref: null, error_id: `${posted}-ve-required` });
+    } else if (field.name === 'email' && value && !EMAIL_PATTERN.test(value)) {
+      invalid.push({ field: posted, message: CONTACT_FORM_7_MESSAGES.invalid_email, idref: null, error_id: `${posted}-ve-email` });
+    }
+  }
+
+  const result = invalid.length > 0 ? 'validation_failed' : status;
+  return {
+    status: result,
+    message: CONTACT_FORM_7_MESSAGES[result],
+    into: `#${submission.fields._wpcf7_unit_tag || 'wpcf7'}`,
+    invalid_fields: invalid,
+    posted_data_hash: ''
+  };
+}
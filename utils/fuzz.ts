@@ -0,0 +1,150 @@
+import { Locator, Page } from '@playwright/test';
+import { FUZZ_ATTRIBUTE, FUZZ_MARKER, FuzzInput, FuzzRejection } from '../config/fuzz';
+import { TIMEOUT } from '../config/environments';
+import { contactForm7Reply, stubFormBackend } from './form-backend';
+
+// Text-like fields only: fill() rejects arbitrary strings in number, date and similar inputs
+const TEXT_FIELDS = [
+  'input:not([type])',
+  'input[type="text"]',
+  'input[type="email"]',
+  'input[type="search"]',
+  'input[type="tel"]',
+  'input[type="url"]',
+  'textarea'
+].join(', ');
+
+const EMAIL_FIELDS = 'input[type="email"], input[name*="email" i]';
+
+// Returned for posts that would reach a handler other than Contact Form 7's
+const STUB_PAGE = '<!DOCTYPE html><html><head><title>Form stub</title></head><body><p>Submission stubbed.</p></body></html>';
+
+export interface FuzzOutcome {
+  formIndex: number;
+  fields: number;
+  // Empty when the form handled the input
+  problems: string[];
+}
+
+export function visibleForms(page: Page): Locator {
+  return page.locator('form').filter({ visible: true });
+}
+
+// Stubs every post a submission could make once `armed()` returns true: Contact Form 7 gets its JSON
+// reply, anything else the stub page. GET submissions such as the search form load the real results
+// page, so reflection can be checked where it would happen.
+async function stubSubmissions(page: Page, armed: () => boolean): Promise<void> {
+  // Routes added later are tried first, so Contact Form 7 posts reach the stub below
+  await page.route('**/*', async route => {
+    if (armed() && route.request().method() === 'POST') {
+      await route.fulfill({ contentType: 'text/html', body: STUB_PAGE });
+    } else {
+      await route.fallback();
+    }
+  });
+  await stubFormBackend(page, submission => ({ json: contactForm7Reply(submission) }));
+}
+
+// Markup or script from a payload that ended up in the DOM unescaped
+async function reflectedPayload(page: Page): Promise<string[]> {
+  return await page.evaluate(({ attribute, marker }) => {
+    const found: string[] = [];
+    if ((window as unknown as Record<string, unknown>)[marker]) {
+      found.push('payload script ran');
+    }
+    const elements = document.querySelectorAll(`[${attribute}]`);
+    if (elements.length > 0) {
+      found.push(`${elements.length} element(s) created from payload markup: ${Array.from(elements).map(element => element.tagName.toLowerCase()).join(', ')}`);
+    }
+    if (Array.from(document.scripts).some(script => (script.textContent || '').includes(marker))) {
+      found.push('payload <script> element in the DOM');
+    }
+    return found;
+  }, { attribute: FUZZ_ATTRIBUTE, marker: FUZZ_MARKER });
+}
+
+// Whether the form shows that it rejected the input: native constraint validation, Contact Form 7
+// tips or aria-invalid fields
+async function showsValidation(form: Locator): Promise<boolean> {
+  return await form.evaluate(element => !(element as HTMLFormElement).checkValidity()
+    || element.querySelector('.wpcf7-not-valid-tip, [aria-invalid="true"]') !== null);
+}
+
+// Fields holding more than their maxlength after filling; browsers cut typed text off at the limit,
+// so this catches fields whose script puts the whole value back
+async function overlongFields(fields: Locator): Promise<number> {
+  return await fields.evaluateAll(elements => elements
+    .filter(element => {
+      const field = element as HTMLInputElement | HTMLTextAreaElement;
+      return field.maxLength >= 0 && field.value.length > field.maxLength;
+    }).length);
+}
+
+// Whether the form has anything that should turn `rejection` input away
+async function expectsRejection(form: Locator, fields: Locator, rejection: FuzzRejection): Promise<boolean> {
+  switch (rejection) {
+    case 'blank':
+      return await form.locator('[required], [aria-required="true"]').count() > 0;
+    case 'too-long':
+      return await overlongFields(fields) > 0;
+    case 'malformed-email':
+      return await form.locator(EMAIL_FIELDS).filter({ visible: true }).count() > 0;
+  }
+}
+
+const REJECTION_PROBLEMS: Record<FuzzRejection, string> = {
+  'blank': 'No validation message for blank required fields',
+  'too-long': 'No validation message for values longer than the field\'s maxlength',
+  'malformed-email': 'No validation message for a malformed email address'
+};
+
+// Loads path, fills every text field of the visible form at formIndex with input and submits it.
+// Posts are answered by the stubs above; GET submissions load the results page from the server.
+export async function fuzzForm(page: Page, path: string, formIndex: number, input: FuzzInput): Promise<FuzzOutcome> {
+  const problems: string[] = [];
+  let armed = false;
+  await stubSubmissions(page, () => armed);
+
+  page.on('console', message => {
+    if (message.type() === 'error') problems.push(`Console error: ${message.text()}`);
+  });
+  page.on('pageerror', error => problems.push(`Uncaught exception: ${error.message}`));
+  page.on('response', response => {
+    if (response.status() >= 500) problems.push(`${response.status()} from ${response.url()}`);
+  });
+
+  await page.goto(path);
+  await page.waitForLoadState('networkidle');
+  // Errors from the page itself are not the form's doing
+  problems.length = 0;
+  armed = true;
+
+  const form = visibleForms(page).nth(formIndex);
+  const fields = form.locator(TEXT_FIELDS).filter({ visible: true });
+  const fieldCount = await fields.count();
+  for (let i = 0; i < fieldCount; i++) {
+    await fields.nth(i).fill(input.value);
+  }
+  const mustReject = !!input.rejects && await expectsRejection(form, fields, input.rejects);
+  const formUrl = page.url();
+
+  // The click waits for a navigation it starts, so a GET submission is on its results page below
+  const submit = form.locator('button[type="submit"], input[type="submit"], button:not([type])').filter({ visible: true });
+  if (await submit.count() > 0) {
+    await submit.first().click();
+  } else {
+    await form.evaluate(element => (element as HTMLFormElement).requestSubmit());
+  }
+  await page.waitForLoadState('networkidle', { timeout: TIMEOUT.MEDIUM }).catch(() => undefined);
+
+  problems.push(...await reflectedPayload(page));
+  // Invalid input must be turned away on the form's own page, not submitted
+  if (input.rejects && mustReject) {
+    if (page.url() !== formUrl) {
+      problems.push(`${REJECTION_PROBLEMS[input.rejects]}; the form was submitted to ${page.url()}`);
+    } else if (!await showsValidation(form)) {
+      problems.push(REJECTION_PROBLEMS[input.rejects]);
+    }
+  }
+  return { formIndex, fields: fieldCount, problems };
+}
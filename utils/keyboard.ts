@@ -0,0 +1,334 @@
+import { Page } from '@playwright/test';
+import { KEYBOARD_CHECK, KeyboardCheck, KeyboardCheckOptions, KeyboardSeverity } from '../config/keyboard';
+import { BasePage } from '../pages';
+
+export interface FocusStop {
+  // Position in the Tab order, from 1
+  index: number;
+  tag: string;
+  role: string | null;
+  label: string;
+  selector: string;
+  tabIndex: number;
+  // Document coordinates while focused
+  rect: { x: number; y: number; width: number; height: number };
+  visible: boolean;
+  // Whether focus changes how the element looks
+  indicator: boolean;
+}
+
+export interface KeyboardIssue {
+  check: KeyboardCheck;
+  severity: KeyboardSeverity;
+  message: string;
+  evidence?: unknown;
+}
+
+// The focus-order map of one page
+export interface FocusOrderMap {
+  pageId: string;
+  url: string;
+  stops: FocusStop[];
+  // left-page: Tab moved on past the last element; wrapped: it came back to the first one
+  end: 'left-page' | 'wrapped' | 'trap' | 'max-tabs';
+  issues: KeyboardIssue[];
+}
+
+// Set on every element that received focus, with its position in the Tab order
+const FOCUS_ATTRIBUTE = 'data-focus-stop';
+const MENU = {
+  parents: 'header li.menu-item-has-children, nav li.menu-item-has-children, [role="menubar"] [aria-haspopup="true"]',
+  submenu: ':scope > ul, :scope > .sub-menu, :scope > [role="menu"]',
+  toggles: '[aria-expanded]:not(a[href]:not([href="#"]))'
+};
+
+// WebKit on macOS only tabs to links with Option held down
+export function tabKey(browserName: string): string {
+  return browserName === 'webkit' && process.platform === 'darwin' ? 'Alt+Tab' : 'Tab';
+}
+
+function issue(check: KeyboardCheck, message: string, evidence?: unknown, options: KeyboardCheckOptions = KEYBOARD_CHECK): KeyboardIssue {
+  return { check, severity: options.severity[check], message, evidence };
+}
+
+// Reloads so the first Tab starts at the top of the document
+async function startFromTop(page: Page): Promise<void> {
+  await page.reload();
+  await new BasePage(page).waitForPageLoad();
+}
+
+// Styles that commonly show focus, as one comparable string (runs in the page)
+function focusStyleOf({ attribute, index }: { attribute: string; index: number }): string | null {
+  const element = document.querySelector(`[${attribute}="${index}"]`);
+  if (!element) {
+    return null;
+  }
+  const style = getComputedStyle(element);
+  return [style.outlineStyle, style.outlineWidth, style.outlineColor, style.boxShadow, style.backgroundColor,
+    style.color, style.borderColor, style.textDecorationLine].join('|');
+}
+
+// Tabs from the top of the page until focus leaves it, comes back to the first element or gets stuck,
+// recording every element that receives focus
+export async function walkFocusOrder(page: Page, pageId: string, tab: string, options: KeyboardCheckOptions = KEYBOARD_CHECK): Promise<FocusOrderMap> {
+  await startFromTop(page);
+  const stops: FocusStop[] = [];
+  const focusedStyles: (string | null)[] = [];
+  let end: FocusOrderMap['end'] = 'max-tabs';
+  let trap: FocusStop | undefined;
+
+  for (let press = 0; press < options.maxTabs; press++) {
+    await page.keyboard.press(tab);
+    const focus = await page.evaluate(({ attribute, next }) => {
+      const active = document.activeElement as HTMLElement | null;
+      if (!active || active === document.body || active === document.documentElement) {
+        return null;
+      }
+      const existing = active.getAttribute(attribute);
+      if (existing) {
+        return { existing: Number(existing) };
+      }
+
+      active.setAttribute(attribute, String(next));
+      const rect = active.getBoundingClientRect();
+      const style = getComputedStyle(active);
+      const className = typeof active.className === 'string' ? active.className.trim().split(/\s+/).filter(Boolean).slice(0, 2) : [];
+      return {
+        existing: null,
+        stop: {
+          tag: active.tagName.toLowerCase(),
+          role: active.getAttribute('role'),
+          label: (active.getAttribute('aria-label') || active.innerText || active.getAttribute('alt') || active.getAttribute('title')
+            || active.getAttribute('href') || '').trim().replace(/\s+/g, ' ').slice(0, 80),
+          selector: active.tagName.toLowerCase() + (active.id ? `#${active.id}` : className.map(name => `.${name}`).join('')),
+          tabIndex: active.tabIndex,
+          rect: { x: Math.round(rect.left + scrollX), y: Math.round(rect.top + scrollY), width: Math.round(rect.width), height: Math.round(rect.height) },
+          visible: rect.width > 0 && rect.height > 0 && rect.right > 0 && rect.left < innerWidth
+            && style.visibility !== 'hidden' && Number(style.opacity) > 0
+        }
+      };
+    }, { attribute: FOCUS_ATTRIBUTE, next: stops.length + 1 });
+
+    if (!focus) {
+      end = 'left-page';
+      break;
+    }
+    if (focus.existing === null && focus.stop) {
+      stops.push({ index: stops.length + 1, ...focus.stop, indicator: true });
+      focusedStyles.push(await page.evaluate(focusStyleOf, { attribute: FOCUS_ATTRIBUTE, index: stops.length }));
+      continue;
+    }
+
+    const last = stops[stops.length - 1];
+    // Tab moves through the content of an embedded frame while the frame itself keeps focus
+    if (focus.existing === last?.index && last.tag === 'iframe') {
+      continue;
+    }
+    if (focus.existing === 1 && stops.length > 1) {
+      end = 'wrapped';
+    } else {
+      end = 'trap';
+      trap = stops[(focus.existing ?? 1) - 1];
+    }
+    break;
+  }
+
+  // Compare every element with how it looks without focus
+  await page.evaluate(() => (document.activeElement as HTMLElement | null)?.blur());
+  for (const [i, stop] of stops.entries()) {
+    const unfocused = await page.evaluate(focusStyleOf, { attribute: FOCUS_ATTRIBUTE, index: stop.index });
+    stop.indicator = stop.tag === 'iframe' || focusedStyles[i] === null || unfocused === null || focusedStyles[i] !== unfocused;
+  }
+
+  const issues: KeyboardIssue[] = [];
+  const describe = (stop: FocusStop) => `#${stop.index} ${stop.selector} "${stop.label}"`;
+  const withoutIndicator = stops.filter(stop => stop.visible && !stop.indicator);
+  if (withoutIndicator.length > 0) {
+    issues.push(issue('focus-indicator', `${withoutIndicator.length} element(s) show no visible change when focused`, withoutIndicator.map(describe), options));
+  }
+  const hidden = stops.filter(stop => !stop.visible);
+  if (hidden.length > 0) {
+    issues.push(issue('hidden-focus', `${hidden.length} element(s) receive focus while not visible`, hidden.map(describe), options));
+  }
+  const reordered = stops.filter(stop => stop.tabIndex > 0);
+  if (reordered.length > 0) {
+    issues.push(issue('tabindex', `${reordered.length} element(s) have a positive tabindex`, reordered.map(describe), options));
+  }
+  if (end === 'trap' && trap) {
+    issues.push(issue('trap', `Keyboard trap: after ${stops.length} stop(s) focus returns to ${describe(trap)} instead of moving on`,
+      stops.slice(trap.index - 1).map(describe), options));
+  }
+
+  return { pageId, url: page.url(), stops, end, issues };
+}
+
+// The skip link should be among the first Tab stops, show up when focused and move focus to its target
+export async function checkSkipLink(page: Page, tab: string, options: KeyboardCheckOptions = KEYBOARD_CHECK): Promise<KeyboardIssue[]> {
+  await startFromTop(page);
+  const skipLink = new BasePage(page).skipLink.first();
+  if (await skipLink.count() === 0) {
+    return [{ ...issue('skip-link', 'No skip link', undefined, options), severity: 'warning' }];
+  }
+
+  const isFocused = () => skipLink.evaluate(element => element === document.activeElement);
+  let reached = false;
+  for (let press = 0; press < 3 && !reached; press++) {
+    await page.keyboard.press(tab);
+    reached = await isFocused();
+  }
+  if (!reached) {
+    return [issue('skip-link', 'The skip link is not among the first three Tab stops', await skipLink.evaluate(element => element.outerHTML), options)];
+  }
+
+  const issues: KeyboardIssue[] = [];
+  const box = await skipLink.boundingBox();
+  const viewport = page.viewportSize();
+  if (!box || box.width === 0 || box.height === 0 || box.x + box.width <= 0 || (viewport && box.x >= viewport.width)) {
+    issues.push(issue('skip-link', 'The skip link stays off screen when focused', box, options));
+  }
+
+  const targetId = decodeURIComponent((await skipLink.getAttribute('href') || '').split('#')[1] || '');
+  if (!targetId || await page.locator(`[id="${targetId}"]`).count() === 0) {
+    issues.push(issue('skip-link', `The skip link target #${targetId} does not exist`, undefined, options));
+    return issues;
+  }
+
+  await page.keyboard.press('Enter');
+  await page.keyboard.press(tab);
+  const movedPast = await page.evaluate(id => {
+    const target = document.getElementById(id);
+    const active = document.activeElement;
+    if (!target || !active || active === document.body) return false;
+    return target.contains(active) || !!(target.compareDocumentPosition(active) & Node.DOCUMENT_POSITION_FOLLOWING);
+  }, targetId);
+  if (!movedPast) {
+    issues.push(issue('skip-link', `After the skip link, Tab does not continue from #${targetId}`, undefined, options));
+  }
+  return issues;
+}
+
+// Menu items with a submenu: the submenu has to open on focus, Enter, Space or Arrow Down, its links
+// have to be reachable with Tab, and Escape should close it again
+export async function checkMenus(page: Page, tab: string, options: KeyboardCheckOptions = KEYBOARD_CHECK): Promise<KeyboardIssue[]> {
+  await startFromTop(page);
+  const issues: KeyboardIssue[] = [];
+  const parents = (await page.locator(MENU.parents).filter({ visible: true }).all()).slice(0, options.maxToggles);
+
+  for (const parent of parents) {
+    const trigger = parent.locator(':scope > button, :scope > a').first();
+    const submenu = parent.locator(MENU.submenu).first();
+    const name = ((await trigger.innerText().catch(() => '')) || 'menu item').trim();
+    if (await submenu.count() === 0) {
+      continue;
+    }
+
+    await trigger.focus();
+    // Links would navigate on Enter, so they only get the keys that don't follow them
+    const isLink = await trigger.evaluate(element => element.tagName === 'A' && !!element.getAttribute('href') && element.getAttribute('href') !== '#');
+    for (const key of isLink ? ['ArrowDown'] : ['Enter', 'Space', 'ArrowDown']) {
+      if (await submenu.isVisible()) break;
+      await page.keyboard.press(key);
+    }
+
+    if (!await submenu.isVisible()) {
+      issues.push(issue('menu', `The "${name}" submenu does not open with the keyboard`, undefined, options));
+      continue;
+    }
+
+    await trigger.focus();
+    await page.keyboard.press(tab);
+    const intoSubmenu = await submenu.evaluate(element => element.contains(document.activeElement));
+    if (!intoSubmenu || !await submenu.isVisible()) {
+      issues.push(issue('menu', `Tab does not move into the open "${name}" submenu`, undefined, options));
+    }
+
+    // Menus opened with :focus-within stay open here, which keeps them in the way of the page
+    await page.keyboard.press('Escape');
+    if (await submenu.isVisible()) {
+      issues.push(issue('escape', `Escape does not close the "${name}" submenu`, undefined, options));
+    }
+    await page.evaluate(() => (document.activeElement as HTMLElement | null)?.blur());
+  }
+  return issues;
+}
+
+// Disclosure buttons and other [aria-expanded] controls outside the menu: Enter and Space should toggle
+// them, Escape should close them
+export async function checkToggles(page: Page, options: KeyboardCheckOptions = KEYBOARD_CHECK): Promise<KeyboardIssue[]> {
+  await startFromTop(page);
+  const issues: KeyboardIssue[] = [];
+  const toggles = (await page.locator(MENU.toggles).filter({ visible: true }).all()).slice(0, options.maxToggles);
+  const startUrl = page.url();
+
+  for (const toggle of toggles) {
+    const name = ((await toggle.getAttribute('aria-label')) || (await toggle.innerText()).trim() || 'toggle').slice(0, 60);
+    const expanded = async () => await toggle.getAttribute('aria-expanded') === 'true';
+
+    for (const key of ['Enter', 'Space']) {
+      await toggle.focus();
+      const before = await expanded();
+      await page.keyboard.press(key);
+      // Back to the page, then on to the next toggle
+      if (page.url() !== startUrl) {
+        issues.push(issue('toggle', `${key} on "${name}" opens ${page.url()} instead of toggling it`, undefined, options));
+        await page.goto(startUrl);
+        await new BasePage(page).waitForPageLoad();
+        break;
+      }
+      if (await expanded() === before) {
+        issues.push(issue('toggle', `${key} does not toggle "${name}"`, undefined, options));
+      } else if (!before) {
+        await page.keyboard.press('Escape');
+        if (await expanded()) {
+          issues.push(issue('escape', `Escape does not close "${name}"`, undefined, options));
+          await toggle.focus();
+          await page.keyboard.press(key);
+        }
+      } else {
+        // Closed it; open it again for the next key
+        await page.keyboard.press(key);
+      }
+    }
+  }
+  return issues;
+}
+
+export function focusOrderMarkdown(map: FocusOrderMap): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|');
+  return [
+    `# Focus order: ${map.pageId}`,
+    map.url,
+    `${map.stops.length} stop(s), ended: ${map.end}`,
+    '| # | Element | Label | Position | Visible | Focus indicator |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...map.stops.map(stop => `| ${stop.index} | \`${cell(stop.selector)}\` | ${cell(stop.label)} | ${stop.rect.x},${stop.rect.y} |`
+      + ` ${stop.visible ? 'yes' : 'no'} | ${stop.indicator ? 'yes' : '**no**'} |`)
+  ].join('\n');
+}
+
+// Full-page screenshot with every visible Tab stop numbered in focus order
+export async function focusOrderScreenshot(page: Page, map: FocusOrderMap): Promise<Buffer> {
+  await page.evaluate(stops => {
+    const layer = document.createElement('div');
+    layer.id = 'focus-order-map';
+    layer.style.cssText = 'position:absolute;top:0;left:0;width:0;height:0;z-index:2147483647;pointer-events:none';
+    for (const stop of stops) {
+      const box = document.createElement('div');
+      box.style.cssText = `position:absolute;left:${stop.rect.x}px;top:${stop.rect.y}px;width:${stop.rect.width}px;height:${stop.rect.height}px;`
+        + `outline:2px solid ${stop.indicator ? '#1565c0' : '#c62828'}`;
+      const badge = document.createElement('span');
+      badge.textContent = String(stop.index);
+      badge.style.cssText = `position:absolute;left:-10px;top:-10px;min-width:18px;padding:1px 3px;border-radius:9px;font:bold 11px/16px sans-serif;`
+        + `text-align:center;color:#fff;background:${stop.indicator ? '#1565c0' : '#c62828'}`;
+      box.appendChild(badge);
+      layer.appendChild(box);
+    }
+    document.body.appendChild(layer);
+  }, map.stops.filter(stop => stop.visible));
+
+  try {
+    return await page.screenshot({ fullPage: true, animations: 'disabled' });
+  } finally {
+    await page.evaluate(() => document.getElementById('focus-order-map')?.remove());
+  }
+}
@@ -0,0 +1,184 @@
+import { APIRequestContext, Page } from '@playwright/test';
+import { LinkCheckOptions } from '../config/link-check';
+import { logResult } from './logger';
+
+// Where a link was found: the page URL and the anchor text
+export interface LinkSource {
+  page: string;
+  text: string;
+}
+
+export interface LinkResult {
+  url: string;
+  internal: boolean;
+  // HTTP status of the final response; 0 when the request failed outright
+  status: number;
+  ok: boolean;
+  skipped: boolean;
+  error?: string;
+  contentType?: string;
+  foundOn: LinkSource[];
+}
+
+export interface LinkReport {
+  startUrl: string;
+  generatedAt: string;
+  maxDepth: number;
+  pagesCrawled: string[];
+  links: LinkResult[];
+  broken: LinkResult[];
+}
+
+// Runs `task` over `items` with at most `limit` calls in flight
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Absolute URL without the fragment, or null for mailto:, tel:, javascript: and other non-HTTP links
+function normalizeUrl(href: string): string | null {
+  try {
+    const url = new URL(href);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+async function checkStatus(request: APIRequestContext, link: LinkResult, options: LinkCheckOptions): Promise<void> {
+  const requestOptions = { timeout: options.requestTimeout, failOnStatusCode: false, maxRedirects: 10 };
+
+  try {
+    // HEAD is cheap, but some servers reject or mishandle it, so confirm failures with GET
+    let response = await request.head(link.url, requestOptions).catch(() => null);
+    if (!response || response.status() >= 400) {
+      response = await request.get(link.url, requestOptions);
+    }
+    link.status = response.status();
+    link.contentType = response.headers()['content-type'];
+    link.ok = link.status < 400;
+  } catch (error) {
+    link.status = 0;
+    link.ok = false;
+    link.error = error instanceof Error ? error.message.split('\n')[0] : String(error);
+  }
+}
+
+async function pageLinks(page: Page): Promise<{ href: string; text: string }[]> {
+  return await page.locator('a[href]').evaluateAll(anchors => anchors.map(anchor => ({
+    href: (anchor as HTMLAnchorElement).href,
+    text: (anchor.textContent || anchor.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim().slice(0, 80)
+  })));
+}
+
+// Crawls internal pages breadth-first from `startPath` up to `options.maxDepth` clicks away and
+// checks every internal and external link found on them once.
+export async function crawlLinks(page: Page, request: APIRequestContext, startPath: string, options: LinkCheckOptions): Promise<LinkReport> {
+  await page.goto(startPath, { waitUntil: 'domcontentloaded' });
+  const startUrl = normalizeUrl(page.url())!;
+  const siteHost = new URL(startUrl).host;
+
+  const links = new Map<string, LinkResult>();
+  const pagesCrawled: string[] = [];
+  let frontier = [startUrl];
+
+  const record = (url: string, source?: LinkSource): LinkResult => {
+    let link = links.get(url);
+    if (!link) {
+      link = {
+        url,
+        internal: new URL(url).host === siteHost,
+        status: 0,
+        ok: false,
+        skipped: options.skip.some(pattern => pattern.test(url)),
+        foundOn: []
+      };
+      links.set(url, link);
+    }
+    if (source) {
+      link.foundOn.push(source);
+    }
+    return link;
+  };
+  record(startUrl);
+
+  const deadline = Date.now() + options.timeLimit;
+  let stoppedBy: string | null = null;
+  for (let depth = 0; depth <= options.maxDepth && frontier.length > 0 && !stoppedBy; depth++) {
+    const found: string[] = [];
+
+    for (const url of frontier) {
+      if (pagesCrawled.length >= options.maxPages) {
+        stoppedBy = `${options.maxPages} pages (LINK_MAX_PAGES)`;
+        break;
+      }
+      if (Date.now() > deadline) {
+        stoppedBy = `${options.timeLimit / 60000} minutes (LINK_TIME_LIMIT)`;
+        break;
+      }
+      const link = links.get(url)!;
+      if (depth > 0 && (!link.ok || !link.contentType?.includes('html'))) {
+        continue;
+      }
+
+      // A page that doesn't load counts as a broken link; the crawl goes on without its links
+      try {
+        await page.goto(url, { waitUntil: 'domcontentloaded' });
+      } catch (error) {
+        link.status = 0;
+        link.ok = false;
+        link.error = `Page did not load: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`;
+        continue;
+      }
+      pagesCrawled.push(url);
+
+      for (const { href, text } of await pageLinks(page)) {
+        const target = normalizeUrl(href);
+        if (!target) {
+          continue;
+        }
+        const isNew = !links.has(target);
+        const result = record(target, { page: url, text });
+        if (isNew && result.internal && !result.skipped) {
+          found.push(target);
+        }
+      }
+    }
+
+    // Check everything discovered at this depth before deciding which pages to crawl next
+    const unchecked = [...links.values()].filter(link => !link.skipped && link.status === 0 && !link.error);
+    await mapWithConcurrency(unchecked, options.concurrency, link => checkStatus(request, link, options));
+    frontier = found;
+  }
+
+  if (stoppedBy) {
+    await logResult(`Stopped crawling after ${stoppedBy}`, 'warning');
+  }
+
+  const all = [...links.values()];
+  const broken = all.filter(link => !link.skipped && !link.ok);
+  await logResult(`Crawled ${pagesCrawled.length} pages, checked ${all.filter(link => !link.skipped).length} links, ${broken.length} broken`,
+    broken.length > 0 ? 'warning' : 'success');
+
+  return {
+    startUrl,
+    generatedAt: new Date().toISOString(),
+    maxDepth: options.maxDepth,
+    pagesCrawled,
+    links: all,
+    broken
+  };
+}
@@ -0,0 +1,70 @@
+import { LinkReport, LinkResult } from './link-checker';
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function link(url: string): string {
+  return `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`;
+}
+
+function brokenRow(result: LinkResult): string {
+  const sources = result.foundOn
+    .map(source => `<li>${link(source.page)}${source.text ? ` <q>${escapeHtml(source.text)}</q>` : ''}</li>`)
+    .join('');
+
+  return `<tr>
+  <td>${link(result.url)}</td>
+  <td>${result.status || escapeHtml(result.error || 'no response')}</td>
+  <td>${result.internal ? 'internal' : 'external'}</td>
+  <td><ul>${sources}</ul></td>
+</tr>`;
+}
+
+// Self-contained HTML page listing each broken link with the pages it was found on
+export function renderLinkReportHtml(report: LinkReport): string {
+  const checked = report.links.filter(result => !result.skipped);
+  const skipped = report.links.length - checked.length;
+  const rows = report.broken.length > 0
+    ? report.broken.map(brokenRow).join('\n')
+    : '<tr><td colspan="4">No broken links found.</td></tr>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Broken link report - ${escapeHtml(report.startUrl)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #ccc; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f3f3; }
+  td ul { margin: 0; padding-left: 1.2rem; }
+  .summary span { margin-right: 1.5rem; }
+</style>
+</head>
+<body>
+<h1>Broken link report</h1>
+<p class="summary">
+  <span>Start: ${link(report.startUrl)}</span>
+  <span>Depth: ${report.maxDepth}</span>
+  <span>Pages crawled: ${report.pagesCrawled.length}</span>
+  <span>Links checked: ${checked.length}</span>
+  <span>Skipped: ${skipped}</span>
+  <span>Broken: ${report.broken.length}</span>
+</p>
+<p>Generated ${escapeHtml(report.generatedAt)}</p>
+<table>
+<thead><tr><th>Link</th><th>Status</th><th>Type</th><th>Found on</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,223 @@
+import { Browser, Page, Request } from '@playwright/test';
+import { LoadOptions } from '../config/load';
+import { SitePage } from '../config/site-map';
+
+// One request made by a virtual user. latency is missing when the request failed before a response.
+export interface RequestSample {
+  user: number;
+  // Site map id of the page being loaded
+  step: string;
+  url: string;
+  resourceType: string;
+  status: number;
+  latency?: number;
+  ok: boolean;
+}
+
+// One page load of a journey, from navigation start to the load event
+export interface StepSample {
+  user: number;
+  step: string;
+  latency: number;
+  ok: boolean;
+  error?: string;
+}
+
+export interface LoadSamples {
+  requests: RequestSample[];
+  steps: StepSample[];
+  journeys: { completed: number; failed: number };
+}
+
+export interface LatencyStats {
+  count: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface ErrorStats {
+  total: number;
+  failed: number;
+  errorRate: number;
+}
+
+export interface LoadSummary {
+  baseURL: string;
+  options: LoadOptions;
+  startedAt: string;
+  // Wall-clock time of the whole run (ms)
+  elapsed: number;
+  journeys: { completed: number; failed: number };
+  requests: ErrorStats & { latency: LatencyStats; perSecond: number };
+  pages: ErrorStats & { latency: LatencyStats };
+  // Page load times and request errors per site map id
+  steps: Record<string, ErrorStats & { latency: LatencyStats }>;
+  // Up to ten examples of what failed
+  failures: string[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Nearest-rank percentile of values sorted in ascending order
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function latencyStats(values: number[]): LatencyStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const round = (value: number) => Math.round(value);
+  return {
+    count: sorted.length,
+    mean: round(sorted.reduce((sum, value) => sum + value, 0) / (sorted.length || 1)),
+    p50: round(percentile(sorted, 50)),
+    p90: round(percentile(sorted, 90)),
+    p95: round(percentile(sorted, 95)),
+    p99: round(percentile(sorted, 99)),
+    max: round(sorted[sorted.length - 1] ?? 0)
+  };
+}
+
+function errorStats(samples: { ok: boolean }[]): ErrorStats {
+  const failed = samples.filter(sample => !sample.ok).length;
+  return { total: samples.length, failed, errorRate: samples.length ? failed / samples.length : 0 };
+}
+
+// Records the requests of one virtual user. Only requests to the site itself count: third-party
+// scripts are not what is being load tested, and they fail anyway against the offline snapshot.
+function recordRequests(page: Page, user: number, origin: string, currentStep: () => string, samples: RequestSample[]): void {
+  const record = async (request: Request, failed: boolean) => {
+    if (new URL(request.url()).origin !== origin) {
+      return;
+    }
+    const step = currentStep();
+    const response = failed ? null : await request.response().catch(() => null);
+    const timing = request.timing();
+    const status = response?.status() ?? 0;
+    samples.push({
+      user,
+      step,
+      url: request.url(),
+      resourceType: request.resourceType(),
+      status,
+      latency: timing.responseEnd >= 0 ? timing.responseEnd : undefined,
+      ok: !failed && status > 0 && status < 400
+    });
+  };
+  page.on('requestfinished', request => void record(request, false));
+  page.on('requestfailed', request => void record(request, true));
+}
+
+async function runVirtualUser(
+  browser: Browser,
+  baseURL: string,
+  user: number,
+  journey: SitePage[],
+  options: LoadOptions,
+  deadline: number,
+  results: LoadSamples
+): Promise<void> {
+  await sleep(options.users > 1 ? (options.rampUp * user) / (options.users - 1) : 0);
+  if (Date.now() >= deadline) {
+    return;
+  }
+
+  const context = await browser.newContext({ baseURL });
+  const page = await context.newPage();
+  page.setDefaultNavigationTimeout(options.navigationTimeout);
+  let step = journey[0].id;
+  recordRequests(page, user, new URL(baseURL).origin, () => step, results.requests);
+
+  try {
+    while (Date.now() < deadline) {
+      let journeyOk = true;
+      for (const sitePage of journey) {
+        if (Date.now() >= deadline) {
+          // An interrupted journey is neither completed nor failed
+          return;
+        }
+        step = sitePage.id;
+        const start = Date.now();
+        try {
+          const response = await page.goto(sitePage.path, { waitUntil: 'load' });
+          const ok = !!response && response.ok();
+          results.steps.push({ user, step, latency: Date.now() - start, ok, error: ok ? undefined : `HTTP ${response?.status()}` });
+          journeyOk &&= ok;
+        } catch (error) {
+          results.steps.push({ user, step, latency: Date.now() - start, ok: false, error: (error as Error).message.split('\n')[0] });
+          journeyOk = false;
+        }
+        await sleep(options.thinkTime);
+      }
+      results.journeys[journeyOk ? 'completed' : 'failed']++;
+    }
+  } finally {
+    await context.close();
+  }
+}
+
+// Ramps up options.users virtual users, each repeating one of the journeys in its own browser
+// context until options.duration has passed, and summarizes what they measured
+export async function runLoadSimulation(browser: Browser, baseURL: string, journeys: SitePage[][], options: LoadOptions): Promise<LoadSummary> {
+  if (journeys.length === 0) {
+    throw new Error('No journeys to simulate');
+  }
+
+  const startedAt = new Date();
+  const deadline = startedAt.getTime() + options.duration;
+  const results: LoadSamples = { requests: [], steps: [], journeys: { completed: 0, failed: 0 } };
+
+  await Promise.all(Array.from({ length: options.users }, (_, user) =>
+    runVirtualUser(browser, baseURL, user, journeys[user % journeys.length], options, deadline, results)));
+
+  return summarizeLoad(baseURL, options, startedAt, Date.now() - startedAt.getTime(), results);
+}
+
+export function summarizeLoad(baseURL: string, options: LoadOptions, startedAt: Date, elapsed: number, results: LoadSamples): LoadSummary {
+  const latencies = (samples: { latency?: number }[]) => samples.map(sample => sample.latency).filter((latency): latency is number => latency !== undefined);
+
+  const steps: LoadSummary['steps'] = {};
+  for (const id of [...new Set(results.steps.map(sample => sample.step))]) {
+    const pageLoads = results.steps.filter(sample => sample.step === id);
+    steps[id] = { ...errorStats(results.requests.filter(sample => sample.step === id)), latency: latencyStats(latencies(pageLoads)) };
+  }
+
+  const failures = [
+    ...results.steps.filter(sample => !sample.ok).map(sample => `user ${sample.user} ${sample.step}: ${sample.error}`),
+    ...results.requests.filter(sample => !sample.ok).map(sample => `user ${sample.user} ${sample.status || 'failed'} ${sample.url}`)
+  ];
+
+  return {
+    baseURL,
+    options,
+    startedAt: startedAt.toISOString(),
+    elapsed,
+    journeys: results.journeys,
+    requests: {
+      ...errorStats(results.requests),
+      latency: latencyStats(latencies(results.requests)),
+      perSecond: Math.round((results.requests.length / (elapsed / 1000 || 1)) * 10) / 10
+    },
+    pages: { ...errorStats(results.steps), latency: latencyStats(latencies(results.steps)) },
+    steps,
+    failures: failures.slice(0, 10)
+  };
+}
+
+export function formatLoadSummary(summary: LoadSummary): string {
+  const stats = (latency: LatencyStats) => `p50 ${latency.p50}ms, p90 ${latency.p90}ms, p95 ${latency.p95}ms, p99 ${latency.p99}ms, max ${latency.max}ms`;
+  const percent = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+  return [
+    `${summary.options.users} user(s) for ${Math.round(summary.elapsed / 1000)}s against ${summary.baseURL}`,
+    `Journeys: ${summary.journeys.completed} completed, ${summary.journeys.failed} failed`,
+    `Pages: ${summary.pages.total} loaded, ${percent(summary.pages.errorRate)} failed, ${stats(summary.pages.latency)}`,
+    `Requests: ${summary.requests.total} (${summary.requests.perSecond}/s), ${percent(summary.requests.errorRate)} failed, ${stats(summary.requests.latency)}`,
+    ...Object.entries(summary.steps).map(([id, step]) => `  ${id}: ${stats(step.latency)}, ${percent(step.errorRate)} of requests failed`)
+  ].join('\n');
+}
@@ -0,0 +1,17 @@
+import { Finding, recordFinding } from './findings';
+
+export type LogType = 'success' | 'info' | 'warning' | 'failure';
+
+// Where a logged finding was made
+export type LogDetails = Pick<Finding, 'page' | 'selector' | 'evidence'>;
+
+const ICONS: Record<LogType, string> = { success: '✓', info: 'ℹ', warning: '⚠', failure: '✗' };
+
+// Logger shared by every page object and spec. Besides the console line, anything other than a
+// success is recorded as a finding on the running test (see utils/findings.ts).
+export async function logResult(message: string, type: LogType = 'success', details: LogDetails = {}): Promise<void> {
+  console.log(`${ICONS[type]} ${message}`);
+  if (type !== 'success') {
+    await recordFinding({ level: type, message, ...details });
+  }
+}
@@ -0,0 +1,93 @@
+import { Page } from '@playwright/test';
+import { CategoryPage, ListedArticle } from '../pages';
+import { CategorySlug } from '../config/site-map';
+import { logResult } from './logger';
+
+// Stops the crawl if "Older Posts" never runs out (e.g. a redirect loop)
+export const MAX_LISTING_PAGES = 50;
+
+export interface ListingPage {
+  // Page number taken from the URL (/page/<n>/), 1 for the archive root
+  number: number;
+  path: string;
+  articles: ListedArticle[];
+  // Paths the "Older Posts" / "Newer Posts" links point to, if shown
+  olderPath?: string;
+  newerPath?: string;
+  // Page numbers offered by the numbered pagination links
+  linkedNumbers: number[];
+}
+
+export interface InventoryArticle extends ListedArticle {
+  path: string;
+  // Listing page the article was found on
+  page: number;
+}
+
+// Every article card of a category, gathered by following "Older Posts" from the first page
+export interface CategoryInventory {
+  slug: CategorySlug;
+  pages: ListingPage[];
+  articles: InventoryArticle[];
+}
+
+export function listingPageNumber(path: string): number {
+  const match = path.match(/\/page\/(\d+)\/?$/);
+  return match ? Number(match[1]) : 1;
+}
+
+async function linkPath(categoryPage: CategoryPage, link: 'olderPostsLink' | 'newerPostsLink'): Promise<string | undefined> {
+  const locator = categoryPage[link];
+  if (await locator.count() === 0) {
+    return undefined;
+  }
+  const href = await locator.first().getAttribute('href');
+  return href ? new URL(href, categoryPage.page.url()).pathname : undefined;
+}
+
+export async function crawlCategory(page: Page, slug: CategorySlug): Promise<CategoryInventory> {
+  const categoryPage = new CategoryPage(page, slug);
+  const pages: ListingPage[] = [];
+  const visited = new Set<string>();
+  let next: string | undefined = categoryPage.categoryPath;
+
+  while (next && !visited.has(next) && pages.length < MAX_LISTING_PAGES) {
+    visited.add(next);
+    await page.goto(next);
+    await categoryPage.waitForPageLoad();
+
+    const path = new URL(page.url()).pathname;
+    const listingPage: ListingPage = {
+      number: listingPageNumber(path),
+      path,
+      articles: await categoryPage.listedArticles(),
+      olderPath: await linkPath(categoryPage, 'olderPostsLink'),
+      newerPath: await linkPath(categoryPage, 'newerPostsLink'),
+      linkedNumbers: await categoryPage.paginationNumbers()
+    };
+    pages.push(listingPage);
+    next = listingPage.olderPath;
+  }
+
+  if (next && pages.length >= MAX_LISTING_PAGES) {
+    await logResult(`Stopped crawling ${slug} after ${MAX_LISTING_PAGES} pages`, 'warning');
+  }
+
+  const articles = pages.flatMap(listingPage => listingPage.articles.map(article => ({
+    ...article,
+    path: new URL(article.url).pathname,
+    page: listingPage.number
+  })));
+  await logResult(`${slug}: ${articles.length} articles on ${pages.length} page(s)`);
+
+  return { slug, pages, articles };
+}
+
+// Article paths listed more than once, with the pages they appear on
+export function duplicateArticles(inventory: CategoryInventory): Record<string, number[]> {
+  const seen: Record<string, number[]> = {};
+  for (const article of inventory.articles) {
+    (seen[article.path] = seen[article.path] || []).push(article.page);
+  }
+  return Object.fromEntries(Object.entries(seen).filter(([, pageNumbers]) => pageNumbers.length > 1));
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { RegressionOptions } from '../config/performance';
+
+// One measurement of one page, as stored in the history file
+export interface PerformanceRecord {
+  timestamp: string;
+  commit: string;
+  environment: string;
+  page: string;
+  browser: string;
+  // "<width>x<height>"
+  viewport: string;
+  // Higher is worse for every metric (times, sizes, counts, CLS)
+  metrics: Record<string, number>;
+  // testInfo.retry of the measuring test; absent or 0 for a first attempt
+  retry?: number;
+}
+
+export interface Regression {
+  key: string;
+  metric: string;
+  latest: number;
+  latestCommit: string;
+  mean: number;
+  stdDev: number;
+  // Relative change from the mean, e.g. 0.25 for 25% slower
+  change: number;
+  runs: number;
+}
+
+let commit: string | undefined;
+
+// CI systems expose the commit in the environment; locally it is read from git
+export function currentCommit(): string {
+  if (commit === undefined) {
+    commit = process.env.GIT_COMMIT || process.env.GITHUB_SHA || '';
+    if (!commit) {
+      try {
+        commit = execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+      } catch {
+        commit = 'unknown';
+      }
+    }
+  }
+  return commit;
+}
+
+export function viewportName(viewport: { width: number; height: number } | null): string {
+  return viewport ? `${viewport.width}x${viewport.height}` : 'default';
+}
+
+// Records are single appended lines, so parallel workers can share the file
+export function appendPerformanceRecord(historyPath: string, record: Omit<PerformanceRecord, 'timestamp' | 'commit'>): void {
+  const line: PerformanceRecord = { timestamp: new Date().toISOString(), commit: currentCommit(), ...record };
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  fs.appendFileSync(historyPath, `${JSON.stringify(line)}\n`);
+}
+
+export function readPerformanceHistory(historyPath: string): PerformanceRecord[] {
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+  return fs.readFileSync(historyPath, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as PerformanceRecord;
+      } catch {
+        throw new Error(`${historyPath}:${index + 1} is not valid JSON`);
+      }
+    });
+}
+
+export function recordKey(record: PerformanceRecord): string {
+  return [record.environment, record.page, record.browser, record.viewport].join(' / ');
+}
+
+function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+// Sample standard deviation
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(values.reduce((total, value) => total + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+// Compares the latest record of every page/browser/viewport with the runs before it. A metric
+// regressed when it is more than `zScore` standard deviations and `minChange` above their mean.
+export function findRegressions(history: PerformanceRecord[], options: RegressionOptions): Regression[] {
+  const byKey = new Map<string, PerformanceRecord[]>();
+  for (const record of [...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+    const records = byKey.get(recordKey(record)) || [];
+    // A retry replaces the attempt it repeats, so each run counts once
+    const previous = records[records.length - 1];
+    if (record.retry && previous && previous.commit === record.commit) {
+      records.pop();
+    }
+    byKey.set(recordKey(record), [...records, record]);
+  }
+
+  const regressions: Regression[] = [];
+  for (const [key, records] of byKey) {
+    const latest = records[records.length - 1];
+    const earlier = records.slice(0, -1).slice(-options.runs);
+
+    for (const [metric, value] of Object.entries(latest.metrics)) {
+      const values = earlier.map(record => record.metrics[metric]).filter((sample): sample is number => typeof sample === 'number');
+      if (values.length < options.minRuns) continue;
+
+      const average = mean(values);
+      const stdDev = standardDeviation(values);
+      const change = average === 0 ? (value > 0 ? Infinity : 0) : (value - average) / average;
+      if (change >= options.minChange && value > average + options.zScore * stdDev) {
+        regressions.push({ key, metric, latest: value, latestCommit: latest.commit, mean: average, stdDev, change, runs: values.length });
+      }
+    }
+  }
+  return regressions;
+}
@@ -0,0 +1,163 @@
+import { Page } from '@playwright/test';
+import { METRIC_UNITS, MetricName, PerformanceBudget } from '../config/performance';
+import { TIMEOUT } from '../config/environments';
+
+// Late layout shifts and long tasks after the network goes idle are still counted
+const SETTLE_TIME = 1000;
+// Main-thread time above this per task counts towards Total Blocking Time
+const LONG_TASK_THRESHOLD = 50;
+
+// Metrics that were not observed (e.g. INP without an interaction) are left out
+export type PerformanceMetrics = Partial<Record<MetricName, number>>;
+
+export interface BudgetViolation {
+  metric: MetricName;
+  value: number;
+  budget: number;
+}
+
+interface VitalsBuffer {
+  lcp?: number;
+  cls: number;
+  inp?: number;
+  longTasks: { start: number; duration: number }[];
+}
+
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+}
+
+// Runs in the page before any of its scripts. Entry types the browser doesn't support are skipped.
+function observeVitals(): void {
+  const vitals: VitalsBuffer = { cls: 0, longTasks: [] };
+  const observe = (type: string, callback: (entries: PerformanceEntry[]) => void, options: object = {}) => {
+    try {
+      new PerformanceObserver(list => callback(list.getEntries())).observe({ type, buffered: true, ...options });
+    } catch {
+      // Unsupported entry type
+    }
+  };
+
+  observe('largest-contentful-paint', entries => {
+    vitals.lcp = entries[entries.length - 1].startTime;
+  });
+
+  // CLS is the largest session window: shifts less than 1s apart, at most 5s long
+  let sessionValue = 0;
+  let sessionStart = 0;
+  let lastShift = 0;
+  observe('layout-shift', entries => {
+    for (const entry of entries as LayoutShiftEntry[]) {
+      if (entry.hadRecentInput) continue;
+      if (entry.startTime - lastShift > 1000 || entry.startTime - sessionStart > 5000) {
+        sessionStart = entry.startTime;
+        sessionValue = 0;
+      }
+      sessionValue += entry.value;
+      lastShift = entry.startTime;
+      vitals.cls = Math.max(vitals.cls, sessionValue);
+    }
+  });
+
+  observe('longtask', entries => {
+    vitals.longTasks.push(...entries.map(entry => ({ start: entry.startTime, duration: entry.duration })));
+  });
+
+  // With the handful of interactions a test makes, INP is the slowest one
+  observe('event', entries => {
+    for (const entry of entries as EventTimingEntry[]) {
+      if (entry.interactionId) {
+        vitals.inp = Math.max(vitals.inp || 0, entry.duration);
+      }
+    }
+  }, { durationThreshold: 16 });
+
+  (window as unknown as { __vitals: VitalsBuffer }).__vitals = vitals;
+}
+
+// Navigates to path and collects Core Web Vitals plus transfer totals. On Chromium the transfer
+// totals come from CDP, which also sees cross-origin responses; other browsers fall back to
+// Resource Timing, where those report 0 bytes.
+export async function measurePagePerformance(page: Page, path: string): Promise<PerformanceMetrics> {
+  await page.addInitScript(observeVitals);
+
+  const network = { transferSize: 0, requestCount: 0 };
+  const isChromium = page.context().browser()?.browserType().name() === 'chromium';
+  const session = isChromium ? await page.context().newCDPSession(page) : null;
+  if (session) {
+    await session.send('Network.enable');
+    session.on('Network.loadingFinished', event => {
+      network.transferSize += event.encodedDataLength;
+      network.requestCount++;
+    });
+  }
+
+  await page.goto(path);
+  await page.waitForLoadState('networkidle');
+
+  // One interaction on a non-link element so INP has something to measure
+  await page.locator('h1').first().click({ timeout: TIMEOUT.SHORT, noWaitAfter: true }).catch(() => undefined);
+  await page.waitForTimeout(SETTLE_TIME);
+
+  const collected = await page.evaluate(() => {
+    const vitals = (window as unknown as { __vitals: VitalsBuffer }).__vitals;
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const fcp = performance.getEntriesByName('first-contentful-paint')[0]?.startTime;
+    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+    return {
+      vitals,
+      ttfb: navigation?.responseStart,
+      fcp,
+      resourceTransferSize: resources.reduce((total, entry) => total + entry.transferSize, navigation?.transferSize || 0),
+      resourceCount: resources.length + 1
+    };
+  });
+  if (session) {
+    await session.detach();
+  }
+
+  // TBT counts long tasks after the first contentful paint
+  const tbt = collected.fcp === undefined ? undefined : collected.vitals.longTasks
+    .filter(task => task.start >= collected.fcp!)
+    .reduce((total, task) => total + Math.max(0, task.duration - LONG_TASK_THRESHOLD), 0);
+
+  const metrics: PerformanceMetrics = {
+    ttfb: collected.ttfb,
+    fcp: collected.fcp,
+    lcp: collected.vitals.lcp,
+    cls: collected.vitals.cls,
+    inp: collected.vitals.inp,
+    tbt,
+    transferSize: session ? network.transferSize : collected.resourceTransferSize,
+    requestCount: session ? network.requestCount : collected.resourceCount
+  };
+  return Object.fromEntries(Object.entries(metrics).filter(([, value]) => value !== undefined));
+}
+
+export function formatMetric(metric: MetricName, value: number): string {
+  if (metric === 'cls') return value.toFixed(3);
+  if (metric === 'transferSize') return `${Math.round(value / 1024)} KB`;
+  return `${Math.round(value)}${METRIC_UNITS[metric] === 'ms' ? 'ms' : ` ${METRIC_UNITS[metric]}`}`;
+}
+
+export function describeMetrics(metrics: PerformanceMetrics): string {
+  return (Object.entries(metrics) as [MetricName, number][])
+    .map(([metric, value]) => `${metric.toUpperCase()} ${formatMetric(metric, value)}`)
+    .join(', ');
+}
+
+// Metrics that weren't measured can't break a budget
+export function checkBudget(metrics: PerformanceMetrics, budget: PerformanceBudget): BudgetViolation[] {
+  return (Object.entries(budget) as [MetricName, number][])
+    .filter(([metric, limit]) => metrics[metric] !== undefined && metrics[metric]! > limit)
+    .map(([metric, limit]) => ({ metric, value: metrics[metric]!, budget: limit }));
+}
+
+export function formatViolation(violation: BudgetViolation): string {
+  return `${violation.metric.toUpperCase()} ${formatMetric(violation.metric, violation.value)} is over the ${formatMetric(violation.metric, violation.budget)} budget`;
+}
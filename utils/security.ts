@@ -0,0 +1,236 @@
+import { Page } from '@playwright/test';
+import { SecurityPolicy, SecuritySeverity } from '../config/security';
+
+export interface SecurityIssue {
+  check: string;
+  severity: SecuritySeverity;
+  message: string;
+  evidence?: unknown;
+}
+
+// What the audit looks at for one page
+export interface PageSecurityData {
+  url: string;
+  // Lower-case header names, from the document response
+  headers: Record<string, string>;
+  setCookies: string[];
+  // http:// subresources requested by an https:// page
+  insecureRequests: string[];
+  generator: string | null;
+  // ver= values of /wp-includes/ assets, which are the WordPress core version
+  coreAssetVersions: string[];
+}
+
+export interface CspAnalysis {
+  present: boolean;
+  reportOnly: boolean;
+  directives: Record<string, string[]>;
+  // 0-100, see scoreCsp
+  score: number;
+  notes: string[];
+}
+
+export interface ParsedCookie {
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: string | null;
+}
+
+export interface SecurityAudit {
+  pageId: string;
+  url: string;
+  headers: Record<string, string>;
+  csp: CspAnalysis;
+  issues: SecurityIssue[];
+}
+
+// Loads path and records the document headers, cookies and insecure requests
+export async function collectSecurityData(page: Page, path: string): Promise<PageSecurityData> {
+  const insecureRequests: string[] = [];
+  page.on('request', request => {
+    if (request.url().startsWith('http://') && request.frame() === page.mainFrame() && !request.isNavigationRequest()) {
+      insecureRequests.push(request.url());
+    }
+  });
+
+  const response = await page.goto(path);
+  if (!response) {
+    throw new Error(`No response for ${path}`);
+  }
+  await page.waitForLoadState('networkidle');
+
+  const headersArray = await response.headersArray();
+  const { generator, coreAssetVersions } = await page.evaluate(() => {
+    const assets = Array.from(document.querySelectorAll('script[src], link[href]'))
+      .map(element => element.getAttribute('src') || element.getAttribute('href') || '')
+      .filter(url => url.includes('/wp-includes/'));
+    const versions = assets
+      .map(url => new URL(url, location.href).searchParams.get('ver'))
+      .filter((version): version is string => !!version);
+    return {
+      generator: document.querySelector('meta[name="generator"]')?.getAttribute('content') ?? null,
+      coreAssetVersions: [...new Set(versions)]
+    };
+  });
+
+  return {
+    url: response.url(),
+    headers: await response.allHeaders(),
+    setCookies: headersArray.filter(header => header.name.toLowerCase() === 'set-cookie').map(header => header.value),
+    // Only an https page can have mixed content
+    insecureRequests: response.url().startsWith('https://') ? insecureRequests : [],
+    generator,
+    coreAssetVersions
+  };
+}
+
+export function parseCsp(value: string): Record<string, string[]> {
+  const directives: Record<string, string[]> = {};
+  for (const part of value.split(';')) {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    // The first occurrence of a directive wins
+    if (name && !directives[name.toLowerCase()]) {
+      directives[name.toLowerCase()] = sources;
+    }
+  }
+  return directives;
+}
+
+// Starts at 100 and deducts for each weakness; a missing policy scores 0
+export function scoreCsp(directives: Record<string, string[]>): { score: number; notes: string[] } {
+  const notes: string[] = [];
+  let score = 100;
+  const deduct = (points: number, note: string) => {
+    score -= points;
+    notes.push(`${note} (-${points})`);
+  };
+
+  const scripts = directives['script-src'] || directives['default-src'];
+  if (!directives['default-src']) deduct(15, 'No default-src fallback');
+  if (!scripts) {
+    deduct(30, 'Scripts are not restricted (no script-src or default-src)');
+  } else {
+    const hasNonceOrHash = scripts.some(source => /^'(nonce|sha256|sha384|sha512)-/.test(source));
+    if (scripts.includes("'unsafe-inline'") && !hasNonceOrHash) deduct(25, "script-src allows 'unsafe-inline'");
+    if (scripts.includes("'unsafe-eval'")) deduct(15, "script-src allows 'unsafe-eval'");
+    if (scripts.some(source => ['*', 'http:', 'https:', 'data:'].includes(source))) deduct(20, 'script-src allows any host or data: URLs');
+  }
+  if (!directives['object-src']?.includes("'none'") && !directives['default-src']?.includes("'none'")) deduct(10, "object-src is not 'none'");
+  if (!directives['base-uri']) deduct(10, 'No base-uri');
+  if (!directives['frame-ancestors']) deduct(10, 'No frame-ancestors');
+
+  return { score: Math.max(0, score), notes };
+}
+
+export function analyzeCsp(headers: Record<string, string>): CspAnalysis {
+  const enforced = headers['content-security-policy'];
+  const value = enforced || headers['content-security-policy-report-only'];
+  if (!value) {
+    return { present: false, reportOnly: false, directives: {}, score: 0, notes: ['No Content-Security-Policy header'] };
+  }
+
+  const directives = parseCsp(value);
+  const { score, notes } = scoreCsp(directives);
+  return { present: true, reportOnly: !enforced, directives, score, notes: enforced ? notes : ['Report-only, not enforced', ...notes] };
+}
+
+export function parseSetCookie(header: string): ParsedCookie {
+  const [pair, ...attributes] = header.split(';').map(part => part.trim());
+  const names = attributes.map(attribute => attribute.split('=')[0].toLowerCase());
+  const sameSite = attributes.find(attribute => /^samesite=/i.test(attribute));
+  return {
+    name: pair.split('=')[0],
+    secure: names.includes('secure'),
+    httpOnly: names.includes('httponly'),
+    sameSite: sameSite ? sameSite.split('=')[1] : null
+  };
+}
+
+function auditHeaders(data: PageSecurityData, policy: SecurityPolicy): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  for (const rule of policy.headers) {
+    const value = data.headers[rule.header];
+    if (!value) {
+      issues.push({ check: 'headers', severity: rule.severity, message: `Missing ${rule.header}` });
+    } else if (rule.expected && !rule.expected.test(value.trim())) {
+      issues.push({ check: 'headers', severity: rule.severity, message: `Unexpected ${rule.header}: ${value}`, evidence: String(rule.expected) });
+    }
+  }
+
+  for (const { header, pattern } of policy.leaking) {
+    const value = data.headers[header];
+    if (value && pattern.test(value)) {
+      issues.push({ check: 'headers', severity: 'warning', message: `${header} reveals the server software: ${value}` });
+    }
+  }
+  return issues;
+}
+
+function auditHsts(data: PageSecurityData, policy: SecurityPolicy): SecurityIssue[] {
+  // Browsers ignore HSTS over plain http, e.g. on the replay server
+  if (!data.url.startsWith('https://')) {
+    return [];
+  }
+
+  const { severity, minMaxAge, includeSubDomains } = policy.hsts;
+  const value = data.headers['strict-transport-security'];
+  if (!value) {
+    return [{ check: 'hsts', severity, message: 'Missing Strict-Transport-Security' }];
+  }
+
+  const issues: SecurityIssue[] = [];
+  const maxAge = Number(value.match(/max-age=(\d+)/i)?.[1] ?? 0);
+  if (maxAge < minMaxAge) {
+    issues.push({ check: 'hsts', severity, message: `HSTS max-age ${maxAge} is below ${minMaxAge}`, evidence: value });
+  }
+  if (includeSubDomains && !/includesubdomains/i.test(value)) {
+    issues.push({ check: 'hsts', severity, message: 'HSTS does not include subdomains', evidence: value });
+  }
+  return issues;
+}
+
+function auditCookies(data: PageSecurityData, policy: SecurityPolicy): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  for (const cookie of data.setCookies.map(parseSetCookie)) {
+    if (!cookie.secure && data.url.startsWith('https://')) {
+      issues.push({ check: 'cookies', severity: policy.cookies.secure, message: `Cookie ${cookie.name} is not Secure` });
+    }
+    if (!cookie.httpOnly) {
+      issues.push({ check: 'cookies', severity: policy.cookies.httpOnly, message: `Cookie ${cookie.name} is not HttpOnly` });
+    }
+    if (!cookie.sameSite) {
+      issues.push({ check: 'cookies', severity: policy.cookies.sameSite, message: `Cookie ${cookie.name} has no SameSite attribute` });
+    }
+  }
+  return issues;
+}
+
+// Runs every check of the policy against one page
+export function auditSecurity(pageId: string, data: PageSecurityData, policy: SecurityPolicy): SecurityAudit {
+  const csp = analyzeCsp(data.headers);
+  const issues = [
+    ...auditHeaders(data, policy),
+    ...auditHsts(data, policy),
+    ...auditCookies(data, policy)
+  ];
+
+  if (csp.score < policy.csp.minScore) {
+    issues.push({ check: 'csp', severity: policy.csp.severity, message: `Content-Security-Policy scores ${csp.score}/100, below ${policy.csp.minScore}`, evidence: csp.notes });
+  }
+  if (data.insecureRequests.length > 0) {
+    issues.push({ check: 'mixed-content', severity: policy.mixedContent, message: `${data.insecureRequests.length} request(s) over plain http`, evidence: data.insecureRequests });
+  }
+  if (data.generator && /wordpress\s*\d/i.test(data.generator)) {
+    issues.push({ check: 'version-leak', severity: policy.versionLeak, message: `meta generator reveals ${data.generator}` });
+  }
+  if (data.coreAssetVersions.length > 0) {
+    issues.push({ check: 'version-leak', severity: policy.versionLeak, message: `/wp-includes/ assets carry ?ver=${data.coreAssetVersions.join(', ')}` });
+  }
+
+  return { pageId, url: data.url, headers: data.headers, csp, issues };
+}
+
+export function describeSecurityIssue(issue: SecurityIssue): string {
+  return `[${issue.check}] ${issue.message}`;
+}
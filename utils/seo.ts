@@ -0,0 +1,268 @@
+import { Page } from '@playwright/test';
+import {
+  EXPECTED_SCHEMA_TYPES,
+  REQUIRED_OPEN_GRAPH,
+  REQUIRED_TWITTER,
+  SCHEMA_RECOMMENDED_PROPERTIES,
+  SCHEMA_REQUIRED_PROPERTIES,
+  SCHEMA_SUBTYPES,
+  SEO_LIMITS
+} from '../config/seo';
+import { PageKind } from '../config/site-map';
+
+export type SeoSeverity = 'error' | 'warning';
+
+export interface SeoIssue {
+  rule: string;
+  severity: SeoSeverity;
+  message: string;
+  evidence?: unknown;
+}
+
+// Everything the audit looks at, read from the rendered page
+export interface SeoData {
+  url: string;
+  title: string;
+  description: string | null;
+  // Every <link rel="canonical">, so duplicates can be reported
+  canonicals: string[];
+  robots: string | null;
+  // og:* and twitter:* values, whether declared with property= or name=
+  social: Record<string, string>;
+  hreflang: { lang: string; href: string }[];
+  headings: { level: number; text: string }[];
+  // Raw contents of each application/ld+json script
+  jsonLd: string[];
+}
+
+// A JSON-LD object with a type, wherever it sits in the document (top level, @graph or nested)
+export interface SchemaNode {
+  types: string[];
+  properties: Record<string, unknown>;
+}
+
+const HREFLANG_PATTERN = /^([a-z]{2,3}(-[A-Za-z]{2,4})?(-[A-Za-z]{2})?|x-default)$/;
+
+export async function extractSeoData(page: Page): Promise<SeoData> {
+  return await page.evaluate(() => {
+    const attribute = (selector: string, name: string) => document.querySelector(selector)?.getAttribute(name) ?? null;
+    const social: Record<string, string> = {};
+    for (const meta of Array.from(document.querySelectorAll('meta[property^="og:"], meta[name^="og:"], meta[property^="twitter:"], meta[name^="twitter:"]'))) {
+      const key = meta.getAttribute('property') || meta.getAttribute('name') || '';
+      social[key] = social[key] ?? (meta.getAttribute('content') || '');
+    }
+
+    return {
+      url: location.href,
+      title: document.title.trim(),
+      description: attribute('meta[name="description"]', 'content'),
+      canonicals: Array.from(document.querySelectorAll('link[rel="canonical"]')).map(link => (link as HTMLLinkElement).href),
+      robots: attribute('meta[name="robots"]', 'content'),
+      social,
+      hreflang: Array.from(document.querySelectorAll('link[rel="alternate"][hreflang]'))
+        .map(link => ({ lang: link.getAttribute('hreflang') || '', href: link.getAttribute('href') || '' })),
+      headings: Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+        .map(heading => ({ level: Number(heading.tagName[1]), text: (heading.textContent || '').trim() })),
+      jsonLd: Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map(script => script.textContent || '')
+    };
+  });
+}
+
+// Same page for SEO purposes: no fragment, no query, trailing slash ignored
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.origin}${parsed.pathname.replace(/\/$/, '')}`;
+}
+
+function lengthIssue(rule: 'title' | 'description', value: string): SeoIssue[] {
+  const { min, max } = SEO_LIMITS[rule];
+  if (value.length < min || value.length > max) {
+    return [{ rule, severity: 'warning', message: `${rule} is ${value.length} characters, expected ${min}-${max}`, evidence: value }];
+  }
+  return [];
+}
+
+function auditMeta(data: SeoData): SeoIssue[] {
+  const issues: SeoIssue[] = [];
+
+  if (!data.title) {
+    issues.push({ rule: 'title', severity: 'error', message: 'Missing <title>' });
+  } else {
+    issues.push(...lengthIssue('title', data.title));
+  }
+
+  if (!data.description?.trim()) {
+    issues.push({ rule: 'description', severity: 'error', message: 'Missing meta description' });
+  } else {
+    issues.push(...lengthIssue('description', data.description.trim()));
+  }
+
+  // Whole directives only, so e.g. max-image-preview:none doesn't count as none
+  const robots = (data.robots || '').toLowerCase().split(',').map(token => token.trim());
+  if (robots.includes('noindex') || robots.includes('none')) {
+    issues.push({ rule: 'robots', severity: 'error', message: 'Page is excluded from indexing by the robots meta tag', evidence: data.robots });
+  } else if (robots.includes('nofollow')) {
+    issues.push({ rule: 'robots', severity: 'warning', message: 'Links on the page are marked nofollow by the robots meta tag', evidence: data.robots });
+  }
+  return issues;
+}
+
+function auditCanonical(data: SeoData): SeoIssue[] {
+  if (data.canonicals.length === 0) {
+    return [{ rule: 'canonical', severity: 'error', message: 'Missing canonical link' }];
+  }
+  if (data.canonicals.length > 1) {
+    return [{ rule: 'canonical', severity: 'error', message: `${data.canonicals.length} canonical links`, evidence: data.canonicals }];
+  }
+
+  // The replay server and staging serve the site from another host, so only the path has to match
+  const canonical = new URL(data.canonicals[0]);
+  const page = new URL(data.url);
+  if (normalizeUrl(canonical.href).slice(canonical.origin.length) !== normalizeUrl(page.href).slice(page.origin.length)) {
+    return [{ rule: 'canonical', severity: 'error', message: `Canonical points to another page: ${canonical.href}`, evidence: data.url }];
+  }
+  return [];
+}
+
+function auditSocial(data: SeoData): SeoIssue[] {
+  const issues: SeoIssue[] = [];
+  const missingOpenGraph = REQUIRED_OPEN_GRAPH.filter(property => !data.social[property]);
+  if (missingOpenGraph.length > 0) {
+    issues.push({ rule: 'open-graph', severity: 'warning', message: `Missing Open Graph properties: ${missingOpenGraph.join(', ')}` });
+  }
+  const ogUrl = data.social['og:url'];
+  if (ogUrl && data.canonicals[0] && normalizeUrl(ogUrl) !== normalizeUrl(data.canonicals[0])) {
+    issues.push({ rule: 'open-graph', severity: 'warning', message: `og:url ${ogUrl} differs from the canonical URL ${data.canonicals[0]}` });
+  }
+
+  const missingTwitter = REQUIRED_TWITTER.filter(property => !data.social[property]);
+  if (missingTwitter.length > 0) {
+    issues.push({ rule: 'twitter', severity: 'warning', message: `Missing Twitter card properties: ${missingTwitter.join(', ')}` });
+  }
+  return issues;
+}
+
+// hreflang is optional (the site is English only), but when present it has to be well formed
+function auditHreflang(data: SeoData): SeoIssue[] {
+  if (data.hreflang.length === 0) {
+    return [];
+  }
+
+  const issues: SeoIssue[] = [];
+  const invalid = data.hreflang.filter(link => !HREFLANG_PATTERN.test(link.lang) || !/^https?:\/\//.test(link.href));
+  if (invalid.length > 0) {
+    issues.push({ rule: 'hreflang', severity: 'warning', message: 'hreflang links need a language code and an absolute URL', evidence: invalid });
+  }
+  const self = data.canonicals[0] || data.url;
+  if (!data.hreflang.some(link => /^https?:\/\//.test(link.href) && normalizeUrl(link.href) === normalizeUrl(self))) {
+    issues.push({ rule: 'hreflang', severity: 'warning', message: 'hreflang links do not reference the page itself', evidence: data.hreflang });
+  }
+  return issues;
+}
+
+function auditHeadings(data: SeoData): SeoIssue[] {
+  const issues: SeoIssue[] = [];
+  const h1s = data.headings.filter(heading => heading.level === 1);
+  if (h1s.length === 0) {
+    issues.push({ rule: 'headings', severity: 'error', message: 'No H1 heading' });
+  } else if (h1s.length > 1) {
+    issues.push({ rule: 'headings', severity: 'warning', message: `${h1s.length} H1 headings`, evidence: h1s.map(heading => heading.text) });
+  }
+
+  // A heading may go any number of levels up, but only one level down
+  const skips = data.headings
+    .slice(1)
+    .filter((heading, index) => heading.level > data.headings[index].level + 1)
+    .map(heading => `h${heading.level} "${heading.text}"`);
+  if (skips.length > 0) {
+    issues.push({ rule: 'headings', severity: 'warning', message: `Heading levels skipped before ${skips.length} heading(s)`, evidence: skips });
+  }
+  return issues;
+}
+
+function collectSchemaNodes(value: unknown, nodes: SchemaNode[]): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectSchemaNodes(item, nodes));
+  } else if (value && typeof value === 'object') {
+    const properties = value as Record<string, unknown>;
+    const type = properties['@type'];
+    if (type) {
+      nodes.push({ types: ([] as unknown[]).concat(type).map(String), properties });
+    }
+    Object.values(properties).forEach(child => collectSchemaNodes(child, nodes));
+  }
+}
+
+// Parses the JSON-LD scripts into typed nodes. Scripts that aren't valid JSON are returned as issues.
+export function parseJsonLd(scripts: string[]): { nodes: SchemaNode[]; issues: SeoIssue[] } {
+  const nodes: SchemaNode[] = [];
+  const issues: SeoIssue[] = [];
+  scripts.forEach((script, index) => {
+    try {
+      collectSchemaNodes(JSON.parse(script), nodes);
+    } catch (error) {
+      issues.push({ rule: 'structured-data', severity: 'error', message: `JSON-LD block ${index + 1} is not valid JSON: ${(error as Error).message}` });
+    }
+  });
+  return { nodes, issues };
+}
+
+function auditStructuredData(data: SeoData, kind: PageKind): SeoIssue[] {
+  const { nodes, issues } = parseJsonLd(data.jsonLd);
+
+  const levels: [Record<string, string[]>, SeoSeverity][] = [[SCHEMA_REQUIRED_PROPERTIES, 'error'], [SCHEMA_RECOMMENDED_PROPERTIES, 'warning']];
+  for (const node of nodes) {
+    for (const [properties, severity] of levels) {
+      for (const type of node.types.filter(candidate => properties[candidate])) {
+        const missing = properties[type].filter(property => node.properties[property] === undefined || node.properties[property] === '');
+        if (missing.length > 0) {
+          issues.push({ rule: 'structured-data', severity, message: `${type} is missing ${missing.join(', ')}`, evidence: node.properties['@id'] });
+        }
+      }
+    }
+  }
+
+  const declared = new Set(nodes.flatMap(node => node.types));
+  const missingTypes = EXPECTED_SCHEMA_TYPES[kind]
+    .filter(type => ![type, ...(SCHEMA_SUBTYPES[type] || [])].some(candidate => declared.has(candidate)));
+  if (missingTypes.length > 0) {
+    issues.push({ rule: 'structured-data', severity: 'warning', message: `No ${missingTypes.join(', ')} structured data`, evidence: [...declared] });
+  }
+  return issues;
+}
+
+// Runs every per-page rule in config/seo.ts
+export function auditSeo(data: SeoData, kind: PageKind): SeoIssue[] {
+  return [
+    ...auditMeta(data),
+    ...auditCanonical(data),
+    ...auditSocial(data),
+    ...auditHreflang(data),
+    ...auditHeadings(data),
+    ...auditStructuredData(data, kind)
+  ];
+}
+
+export function describeSeoIssue(issue: SeoIssue): string {
+  return `[${issue.rule}] ${issue.message}`;
+}
+
+// Pages sharing a title or meta description, which search engines treat as duplicates
+export function findDuplicateMeta(pages: { id: string; title: string; description: string | null }[]): SeoIssue[] {
+  const issues: SeoIssue[] = [];
+  for (const field of ['title', 'description'] as const) {
+    const byValue = new Map<string, string[]>();
+    for (const page of pages) {
+      const value = (page[field] || '').trim().toLowerCase();
+      if (value) {
+        byValue.set(value, [...(byValue.get(value) || []), page.id]);
+      }
+    }
+    for (const [value, ids] of byValue) {
+      if (ids.length > 1) {
+        issues.push({ rule: `duplicate-${field}`, severity: 'error', message: `Same ${field} on ${ids.join(', ')}`, evidence: value });
+      }
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,169 @@
+import { APIRequestContext } from '@playwright/test';
+import { SitemapCheckOptions } from '../config/sitemap';
+
+export interface SitemapInventory {
+  // The sitemap (or sitemap index) that answered
+  root: string;
+  // Child sitemaps read through the index
+  children: string[];
+  // Page URLs listed across all of them, in order
+  urls: string[];
+}
+
+export interface SitemapUrlResult {
+  url: string;
+  status: number;
+  canonical?: string;
+  error?: string;
+}
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+// Sitemaps list production URLs; requests go to the same path on the environment under test
+export function sitePath(url: string): string {
+  const parsed = new URL(url, 'http://placeholder');
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+// Compares URLs by path, ignoring a trailing slash
+export function samePath(a: string, b: string): boolean {
+  const path = (url: string) => new URL(url, 'http://placeholder').pathname.replace(/\/$/, '') || '/';
+  return path(a) === path(b);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Sitemaps are flat enough that the <loc> elements are all that is needed
+export function parseSitemapXml(xml: string): { index: boolean; locations: string[] } {
+  const locations = [...xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/g)].map(match => decodeXml(match[1].trim()));
+  return { index: /<sitemapindex[\s>]/.test(xml), locations };
+}
+
+async function fetchXml(request: APIRequestContext, path: string, options: SitemapCheckOptions): Promise<string | null> {
+  try {
+    const response = await request.get(path, { timeout: options.requestTimeout });
+    const body = await response.text();
+    return response.ok() && /<(urlset|sitemapindex)[\s>]/.test(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// Finds the first sitemap candidate that answers and collects the page URLs of it and, for an
+// index, of every child sitemap (nested indexes included)
+export async function fetchSitemap(request: APIRequestContext, options: SitemapCheckOptions): Promise<SitemapInventory> {
+  for (const candidate of options.candidates) {
+    const xml = await fetchXml(request, candidate, options);
+    if (!xml) continue;
+
+    const inventory: SitemapInventory = { root: candidate, children: [], urls: [] };
+    const pending = [xml];
+    while (pending.length > 0) {
+      const { index, locations } = parseSitemapXml(pending.shift()!);
+      if (!index) {
+        inventory.urls.push(...locations);
+        continue;
+      }
+      for (const child of locations.filter(location => !inventory.children.includes(location))) {
+        inventory.children.push(child);
+        const childXml = await fetchXml(request, sitePath(child), options);
+        if (!childXml) {
+          throw new Error(`Child sitemap ${child} listed in ${candidate} could not be read`);
+        }
+        pending.push(childXml);
+      }
+    }
+    return inventory;
+  }
+  throw new Error(`No sitemap found at ${options.candidates.join(', ')}`);
+}
+
+function canonicalOf(html: string): string | undefined {
+  const link = html.match(/<link\b[^>]*\brel=["']?canonical["']?[^>]*>/i);
+  return link?.[0].match(/\bhref=["']([^"']+)["']/i)?.[1];
+}
+
+// A listed URL has to answer 200 itself (redirects are not followed) and name itself as canonical
+export async function checkSitemapUrl(request: APIRequestContext, url: string, options: SitemapCheckOptions): Promise<SitemapUrlResult> {
+  try {
+    const response = await request.get(sitePath(url), { maxRedirects: 0, timeout: options.requestTimeout });
+    const canonical = response.status() === 200 ? canonicalOf(await response.text()) : undefined;
+    return { url, status: response.status(), canonical };
+  } catch (error) {
+    return { url, status: 0, error: (error as Error).message.split('\n')[0] };
+  }
+}
+
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const robots: RobotsTxt = { groups: [], sitemaps: [] };
+  let group: RobotsGroup | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.replace(/#.*/, '').match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+    if (!match) continue;
+    const [, field, value] = match;
+
+    switch (field.toLowerCase()) {
+      case 'user-agent':
+        // Consecutive User-agent lines share the rules that follow them
+        if (!group || group.rules.length > 0) {
+          group = { agents: [], rules: [] };
+          robots.groups.push(group);
+        }
+        group.agents.push(value.toLowerCase());
+        break;
+      case 'allow':
+      case 'disallow':
+        // An empty Disallow allows everything, so it adds no rule
+        if (group && value) {
+          group.rules.push({ allow: field.toLowerCase() === 'allow', pattern: value });
+        }
+        break;
+      case 'sitemap':
+        robots.sitemaps.push(value);
+        break;
+    }
+  }
+  return robots;
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+// Google's rules: the group naming the agent (else "*") applies, and the longest matching
+// pattern wins, Allow winning ties
+export function isAllowed(robots: RobotsTxt, path: string, agent: string): boolean {
+  const named = robots.groups.filter(group => group.agents.includes(agent.toLowerCase()));
+  const groups = named.length > 0 ? named : robots.groups.filter(group => group.agents.includes('*'));
+  const matching = groups
+    .flatMap(group => group.rules)
+    .filter(rule => matchesPattern(rule.pattern, path))
+    .sort((a, b) => b.pattern.length - a.pattern.length || Number(b.allow) - Number(a.allow));
+  return matching.length === 0 || matching[0].allow;
+}
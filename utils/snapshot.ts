@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { SITE_MAP } from '../config/site-map';
+
+// Offline snapshots live in fixtures/snapshots/<version>/, one directory per recording
+export const SNAPSHOT_ROOT = path.resolve(__dirname, '..', 'fixtures', 'snapshots');
+export const SNAPSHOT_ORIGIN = 'https://pinoypetplan.com';
+
+// Prefix under which the replay server exposes assets recorded from other hosts
+export const EXTERNAL_PREFIX = '/__external__';
+
+// Every page in the site map
+export const SNAPSHOT_PATHS = SITE_MAP.map(page => page.path);
+
+export interface SnapshotEntry {
+  status: number;
+  contentType: string;
+  // Body file relative to the snapshot directory; absent for redirects
+  file?: string;
+  location?: string;
+}
+
+export interface SnapshotManifest {
+  version: string;
+  origin: string;
+  recordedAt: string;
+  pages: string[];
+  // Keyed by absolute URL
+  entries: Record<string, SnapshotEntry>;
+}
+
+export function snapshotDir(version: string): string {
+  return path.join(SNAPSHOT_ROOT, version);
+}
+
+// SNAPSHOT_VERSION when set, otherwise the most recently named recording
+export function resolveSnapshotVersion(version: string | undefined = process.env.SNAPSHOT_VERSION): string {
+  if (version) {
+    return version;
+  }
+
+  const versions = fs.existsSync(SNAPSHOT_ROOT)
+    ? fs.readdirSync(SNAPSHOT_ROOT).filter(name => fs.existsSync(path.join(SNAPSHOT_ROOT, name, 'manifest.json'))).sort()
+    : [];
+  if (versions.length === 0) {
+    throw new Error(`No snapshots found in ${SNAPSHOT_ROOT}. Record one with "npm run snapshot:record".`);
+  }
+  return versions[versions.length - 1];
+}
+
+export function readManifest(version: string): SnapshotManifest {
+  const manifestPath = path.join(snapshotDir(version), 'manifest.json');
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Snapshot "${version}" has no manifest at ${manifestPath}`);
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as SnapshotManifest;
+}
+
+export function writeManifest(manifest: SnapshotManifest): void {
+  const manifestPath = path.join(snapshotDir(manifest.version), 'manifest.json');
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+}
+
+// Maps a URL to a stable file path: files/<host>/<path>, with query strings hashed into the name
+export function snapshotFilePath(url: string, contentType: string): string {
+  const parsed = new URL(url);
+  let pathname = decodeURIComponent(parsed.pathname);
+
+  if (pathname.endsWith('/')) {
+    pathname += contentType.includes('html') ? 'index.html' : 'index';
+  }
+  if (parsed.search) {
+    const hash = createHash('sha1').update(parsed.search).digest('hex').slice(0, 10);
+    const ext = path.extname(pathname);
+    pathname = `${pathname.slice(0, pathname.length - ext.length)}.${hash}${ext}`;
+  }
+
+  const safe = pathname.split('/').map(segment => segment.replace(/[^\w.@-]/g, '_')).join('/');
+  return path.posix.join('files', parsed.host, safe);
+}
+
+export function isTextContent(contentType: string): boolean {
+  return /text\/|javascript|json|xml|svg/.test(contentType);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Points every recorded host in a text body at the replay server (`localOrigin`).
+// Handles plain, protocol-relative and JSON-escaped (https:\/\/host) forms.
+export function rewriteOrigins(body: string, siteHost: string, recordedHosts: string[], localOrigin: string): string {
+  let rewritten = body;
+
+  for (const host of recordedHosts) {
+    const target = host === siteHost ? localOrigin : `${localOrigin}${EXTERNAL_PREFIX}/${host}`;
+    const pattern = new RegExp(`(?:https?:)?(\\\\?/\\\\?/)${escapeRegExp(host)}(?![\\w.-])`, 'g');
+
+    rewritten = rewritten.replace(pattern, (_match, slashes: string) =>
+      slashes.includes('\\') ? target.replace(/\//g, '\\/') : target
+    );
+  }
+  return rewritten;
+}